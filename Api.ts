@@ -0,0 +1,240 @@
+import { TFile } from "obsidian";
+import type SemanticCanvasPlugin from "main";
+import { FileChange, PushMode } from "PushPlan";
+import { resolvePropertyType, ScalarType } from "PropertyTypes";
+import { keyForEdgeColor, parseColorMappings } from "ColorMappings";
+import { loadRelationSchema, validateAgainstSchema } from "RelationSchema";
+
+/**
+ * Bumped whenever anything below changes in a way that could break a script relying on it.
+ * Additions don't bump it.
+ */
+export const API_VERSION = 1;
+
+/**
+ * A node of a canvas, as the plugin reads it
+ */
+export type ApiNode = {
+	id: string;
+	type: 'file' | 'card' | 'url' | 'group';
+	/** The vault path for files, the text for cards, the URL for urls and the label for groups */
+	value: string;
+	/** Ids of the groups the node sits inside, outermost first */
+	groups: string[];
+}
+
+/**
+ * An edge of a canvas, with the property key it writes when pushed
+ */
+export type ApiEdge = {
+	id: string;
+	from: string;
+	to: string;
+	label?: string;
+	/** `undefined` when the edge writes nothing, e.g. an edge expanded to a group's contents */
+	key?: string;
+	/** Set for single-valued keys */
+	type?: ScalarType;
+	bidirectional: boolean;
+}
+
+export type ApiGraph = {
+	canvasPath: string;
+	nodes: ApiNode[];
+	edges: ApiEdge[];
+}
+
+export type ApiPushMode = 'append' | 'overwrite' | 'mirror';
+
+/**
+ * What a push would do to one key of one note
+ */
+export type ApiKeyChange = {
+	key: string;
+	type?: ScalarType;
+	/** What the key holds now, `undefined` when it doesn't exist */
+	current: unknown;
+	/** What the key will hold, `undefined` when it will be removed */
+	proposed: unknown;
+	action: 'created' | 'appended' | 'replaced' | 'removed';
+	values: Array<{ value: unknown, status: 'added' | 'kept' | 'dropped' }>;
+	/** Canvas values that can't be read as the key's type, and will be skipped */
+	unparsable: string[];
+}
+
+export type ApiNoteChange = {
+	notePath: string;
+	keys: ApiKeyChange[];
+}
+
+export type ApiPushResult = {
+	/** How many notes were written */
+	notes: number;
+	/** How many properties were written, across all notes */
+	properties: number;
+	changes: ApiNoteChange[];
+}
+
+/**
+ * The stable way for other plugins and scripts to use Semantic Canvas, at
+ * `app.plugins.plugins['semantic-canvas'].api`. Nothing here depends on the active view or shows notices:
+ * results are returned and problems are thrown as errors.
+ */
+export class SemanticCanvasApi {
+	readonly version = API_VERSION;
+	private plugin: SemanticCanvasPlugin;
+
+	constructor(plugin: SemanticCanvasPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Reads a canvas into its nodes and the edges between them, with the key each edge writes
+	 */
+	async getGraph(canvasPath: string): Promise<ApiGraph> {
+		const file = this.getCanvasFile(canvasPath);
+		const settings = this.plugin.settings;
+		const map = await this.plugin.getCanvasMapFor(file);
+
+		const groupsOf = new Map<string, string[]>();
+		(map.groups ?? [])
+			.slice()
+			.sort((a, b) => b.width * b.height - a.width * a.height)
+			.forEach(group => group.containedNodes.forEach((node: { id: string }) => {
+				groupsOf.set(node.id, [...(groupsOf.get(node.id) ?? []), group.id]);
+			}));
+		const nodes: ApiNode[] = [
+			...(map.files ?? []).map(node => ({ id: node.id, type: 'file' as const, value: node.file })),
+			...(map.cards ?? []).map(node => ({ id: node.id, type: 'card' as const, value: node.text })),
+			...(map.urls ?? []).map(node => ({ id: node.id, type: 'url' as const, value: node.url })),
+			...(map.groups ?? []).map(node => ({ id: node.id, type: 'group' as const, value: node.label ?? '' }))
+		].map(node => ({ ...node, groups: groupsOf.get(node.id) ?? [] }));
+
+		const colorMappings = parseColorMappings(settings.colorMappings);
+		const edges: ApiEdge[] = (map.edges ?? [])
+			.filter(edge => !edge.id.endsWith('-phantom'))
+			.map(edge => {
+				const target = nodes.find(node => node.id === edge.toNode);
+				let label = edge.label !== undefined && edge.label !== '' ? edge.label : keyForEdgeColor(colorMappings, edge.color);
+				if (label === undefined) {
+					if (target?.type === 'file') label = settings.fileDefault;
+					if (target?.type === 'card') label = settings.cardDefault;
+					if (target?.type === 'url') label = settings.urlDefault;
+					if (target?.type === 'group' && edge.toGroupItself) label = settings.groupDefault;
+				}
+				const typed = label !== undefined && (target?.type !== 'group' || edge.toGroupItself) ? resolvePropertyType(this.plugin.app, label) : undefined;
+				return {
+					id: edge.id,
+					from: edge.fromNode,
+					to: edge.toNode,
+					label: edge.label,
+					key: typed?.key,
+					type: typed?.type,
+					bidirectional: edge.isBidirectional
+				};
+			});
+
+		return { canvasPath: file.path, nodes: nodes, edges: edges };
+	}
+
+	/**
+	 * What pushing a canvas would write into each note, without writing anything
+	 * @param notePaths only plan for these notes
+	 */
+	async proposeChanges(canvasPath: string, mode: ApiPushMode = 'append', notePaths?: string[]): Promise<ApiNoteChange[]> {
+		const plan = await this.plan(canvasPath, mode, notePaths);
+		return describe(plan.changes);
+	}
+
+	/**
+	 * Pushes a canvas into its notes, skipping the preview and schema report. Recorded in the undo history like any push.
+	 * When the settings block pushes on schema violations, violations in the notes to write are thrown instead.
+	 * @param notePaths only write these notes
+	 */
+	async applyChanges(canvasPath: string, mode: ApiPushMode = 'append', notePaths?: string[]): Promise<ApiPushResult> {
+		const plan = await this.plan(canvasPath, mode, notePaths);
+		const settings = this.plugin.settings;
+		const schema = settings.blockOnSchemaViolations && settings.schemaPath !== '' ? await loadRelationSchema(this.plugin.app, settings.schemaPath) : undefined;
+		if (schema !== undefined) {
+			const written = plan.changes.filter(change => change.include).map(change => change.file.path);
+			const propsByPath = new Map(plan.filesMap.map(fileMap => [fileMap.file.path, fileMap.props ?? {}]));
+			const violations = validateAgainstSchema(this.plugin.app, schema, plan.fileNodes, propsByPath)
+				.filter(violation => written.includes(violation.filePath));
+			if (violations.length > 0) {
+				throw new Error(`${violations.length} schema violation(s): ${violations.map(violation => `${violation.filePath} ${violation.key}: ${violation.message}`).join('; ')}`);
+			}
+		}
+		const changes = describe(plan.changes);
+		const result = await this.plugin.applyPushChanges(plan.changes, toPushMode(mode), plan.data, canvasPath, false, true);
+		return { notes: result.files, properties: result.props, changes: changes };
+	}
+
+	/**
+	 * A note's properties the way the plugin reads them: lists as they are, single values as one-item lists
+	 */
+	getNoteProperties(notePath: string): { [key: string]: string[] } {
+		const properties: { [key: string]: string[] } = {};
+		this.plugin.getNoteData(notePath).forEach(prop => {
+			const key = Object.keys(prop)[0];
+			properties[key] = prop[key].map(val => String(val));
+		});
+		return properties;
+	}
+
+	/**
+	 * Creates a canvas with the notes and the relations among them, laid out like the "Create semantic canvas" commands do
+	 * @param canvasPath where to create it; defaults to a new canvas in the default location
+	 * @returns the path of the new canvas
+	 */
+	async createCanvas(notePaths: string[], canvasPath?: string): Promise<string> {
+		const notes = notePaths.map(path => {
+			const note = this.plugin.app.vault.getFileByPath(path);
+			if (note === null || note.extension !== 'md') throw new Error(`No note found at ${path}`);
+			return note;
+		});
+		if (notes.length === 0) throw new Error('No notes given');
+		if (canvasPath !== undefined && this.plugin.app.vault.getAbstractFileByPath(canvasPath) !== null) {
+			throw new Error(`${canvasPath} already exists`);
+		}
+		const created = await this.plugin.writeCanvasForNotes(notes, canvasPath ?? this.plugin.getNewCanvasPath('Semantic canvas', ''));
+		return created.path;
+	}
+
+	private async plan(canvasPath: string, mode: ApiPushMode, notePaths?: string[]) {
+		const file = this.getCanvasFile(canvasPath);
+		const plan = await this.plugin.planCanvasPush(file, toPushMode(mode));
+		if (plan === undefined) throw new Error(`No canvas data found in ${canvasPath}`);
+		if (notePaths !== undefined) plan.changes = plan.changes.filter(change => notePaths.includes(change.file.path));
+		return plan;
+	}
+
+	private getCanvasFile(canvasPath: string): TFile {
+		const file = this.plugin.app.vault.getFileByPath(canvasPath);
+		if (file === null || file.extension !== 'canvas') throw new Error(`No canvas found at ${canvasPath}`);
+		return file;
+	}
+}
+
+function describe(changes: FileChange[]): ApiNoteChange[] {
+	return changes.map(change => ({
+		notePath: change.file.path,
+		keys: change.keys.map(keyChange => ({
+			key: keyChange.key,
+			type: keyChange.type,
+			current: keyChange.current,
+			proposed: keyChange.proposed,
+			action: keyChange.action,
+			values: keyChange.values,
+			unparsable: keyChange.unparsable
+		}))
+	}));
+}
+
+function toPushMode(mode: ApiPushMode): PushMode {
+	switch (mode) {
+		case 'append': return PushMode.Append;
+		case 'overwrite': return PushMode.Overwrite;
+		case 'mirror': return PushMode.Mirror;
+	}
+	throw new Error(`Unknown push mode "${mode}", use append, overwrite or mirror`);
+}
@@ -0,0 +1,92 @@
+import { CanvasData, CanvasNodeData } from "canvas";
+import { moment } from "obsidian";
+
+/**
+ * Maps one direction of a canvas onto a number or date property
+ */
+export type Axis = {
+	key: string;
+	type: 'number' | 'date';
+	/** The value at canvas coordinate 0, a number or a `YYYY-MM-DD` date */
+	origin: string;
+	/** Canvas pixels per unit (per day for dates). Negative runs the axis left or up. */
+	scale: number;
+	/** Values are rounded to multiples of this (days for dates) */
+	step: number;
+}
+
+/**
+ * The axes defined for a canvas: x for e.g. a timeline, y for e.g. priority
+ */
+export type CanvasAxes = { x?: Axis, y?: Axis };
+
+/**
+ * Whether an axis has everything needed to convert between positions and values
+ */
+export function isValidAxis(axis: Axis): boolean {
+	if (axis.key.trim() === '' || axis.scale === 0 || !(axis.step > 0)) return false;
+	return parseAxisValue(axis, axis.origin) !== undefined;
+}
+
+/**
+ * The property value for a canvas coordinate along the axis
+ */
+export function positionToValue(axis: Axis, coordinate: number): string | number {
+	const units = Math.round(coordinate / axis.scale / axis.step) * axis.step;
+	if (axis.type === 'date') return moment(axis.origin, 'YYYY-MM-DD', true).add(units, 'days').format('YYYY-MM-DD');
+	/* keep float noise from steps like 0.1 out of notes */
+	return Number((Number(axis.origin) + units).toFixed(10));
+}
+
+/**
+ * The canvas coordinate for a property value along the axis
+ * @returns `undefined` when the value isn't a number or date
+ */
+export function valueToPosition(axis: Axis, val: unknown): number | undefined {
+	const units = parseAxisValue(axis, val);
+	const origin = parseAxisValue(axis, axis.origin);
+	if (units === undefined || origin === undefined) return undefined;
+	return (units - origin) * axis.scale;
+}
+
+/**
+ * The values a node's position stands for, at the center of the node
+ */
+export function nodeAxisValues(axes: CanvasAxes, node: CanvasNodeData): { [key: string]: string | number } {
+	const values: { [key: string]: string | number } = {};
+	if (axes.x !== undefined && isValidAxis(axes.x)) values[axes.x.key] = positionToValue(axes.x, node.x + node.width / 2);
+	if (axes.y !== undefined && isValidAxis(axes.y)) values[axes.y.key] = positionToValue(axes.y, node.y + node.height / 2);
+	return values;
+}
+
+/**
+ * Centers every file node on the position its note's values stand for. Nodes without a value keep their place
+ * along that axis. Mutates the canvas data.
+ * @param valuesOf reads the properties of the note at a path
+ * @returns how many nodes were moved
+ */
+export function positionByAxes(data: CanvasData, axes: CanvasAxes, valuesOf: (path: string) => { [key: string]: unknown }): number {
+	let moved = 0;
+	data.nodes.forEach(node => {
+		if (node.type !== 'file') return;
+		const values = valuesOf(node.file);
+		const x = axes.x !== undefined && isValidAxis(axes.x) ? valueToPosition(axes.x, values[axes.x.key]) : undefined;
+		const y = axes.y !== undefined && isValidAxis(axes.y) ? valueToPosition(axes.y, values[axes.y.key]) : undefined;
+		if (x !== undefined) node.x = Math.round(x - node.width / 2);
+		if (y !== undefined) node.y = Math.round(y - node.height / 2);
+		if (x !== undefined || y !== undefined) moved++;
+	});
+	return moved;
+}
+
+function parseAxisValue(axis: Axis, val: unknown): number | undefined {
+	if (axis.type === 'number') {
+		if (typeof val !== 'number' && (typeof val !== 'string' || val.trim() === '')) return undefined;
+		const num = Number(val);
+		return isFinite(num) ? num : undefined;
+	}
+	if (typeof val !== 'string') return undefined;
+	const date = moment(val, ['YYYY-MM-DD', 'YYYY-MM-DDTHH:mm', 'YYYY-MM-DDTHH:mm:ss'], true);
+	/* whole days since the epoch, so date axes line up regardless of time zone */
+	return date.isValid() ? Math.round(moment.utc(date.format('YYYY-MM-DD')).valueOf() / 86400000) : undefined;
+}
@@ -0,0 +1,92 @@
+import { App, Modal, moment, Notice, Setting } from "obsidian";
+import { Axis, CanvasAxes, isValidAxis } from "Axes";
+
+/**
+ * Asks which properties a canvas's x and y axes stand for, and how positions map onto their values
+ */
+export class AxesModal extends Modal {
+	title: string;
+	x: Axis;
+	y: Axis;
+	onSubmit: (axes: CanvasAxes) => void;
+
+	constructor(app: App, title: string, axes: CanvasAxes, onSubmit: (axes: CanvasAxes) => void) {
+		super(app);
+		this.title = title;
+		this.x = Object.assign({ key: '', type: 'date', origin: moment().format('YYYY-MM-DD'), scale: 20, step: 1 }, axes.x);
+		this.y = Object.assign({ key: '', type: 'number', origin: '0', scale: -200, step: 1 }, axes.y);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(this.title);
+
+		this.addAxisSettings(contentEl, 'Horizontal axis (x)', this.x);
+		this.addAxisSettings(contentEl, 'Vertical axis (y)', this.y);
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Save axes')
+				.setCta()
+				.onClick(() => {
+					const axes: CanvasAxes = {};
+					for (const [name, axis] of [['x', this.x], ['y', this.y]] as Array<['x' | 'y', Axis]>) {
+						if (axis.key.trim() === '') continue;
+						if (!isValidAxis(axis)) {
+							new Notice(`The ${name} axis needs a ${axis.type === 'date' ? 'YYYY-MM-DD date' : 'number'} at 0, a non-zero scale and a positive step`);
+							return;
+						}
+						axes[name] = axis;
+					}
+					this.close();
+					this.onSubmit(axes);
+				}));
+	}
+
+	addAxisSettings(containerEl: HTMLElement, heading: string, axis: Axis) {
+		containerEl.createEl('h3', { text: heading });
+
+		new Setting(containerEl)
+			.setName('Property')
+			.setDesc('Leave blank for no axis in this direction')
+			.addText(text => text
+				.setPlaceholder(axis === this.x ? 'Example: due' : 'Example: priority')
+				.setValue(axis.key)
+				.onChange(value => axis.key = value.trim()));
+
+		new Setting(containerEl)
+			.setName('Type')
+			.addDropdown(dropDown => dropDown
+				.addOption('date', 'Date')
+				.addOption('number', 'Number')
+				.setValue(axis.type)
+				.onChange(value => axis.type = value as Axis['type']));
+
+		new Setting(containerEl)
+			.setName('Value at 0')
+			.setDesc('The number, or YYYY-MM-DD date, at the canvas origin')
+			.addText(text => text
+				.setValue(axis.origin)
+				.onChange(value => axis.origin = value.trim()));
+
+		new Setting(containerEl)
+			.setName('Pixels per unit')
+			.setDesc('Per day for dates. Negative values run the axis left or up.')
+			.addText(text => text
+				.setValue(String(axis.scale))
+				.onChange(value => axis.scale = Number(value)));
+
+		new Setting(containerEl)
+			.setName('Round to')
+			.setDesc('Values are rounded to multiples of this (days for dates)')
+			.addText(text => text
+				.setValue(String(axis.step))
+				.onChange(value => axis.step = Number(value)));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
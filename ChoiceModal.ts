@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal } from "obsidian";
+
+/**
+ * A fuzzy picker over any list of items
+ */
+export class ChoiceModal<T> extends FuzzySuggestModal<T> {
+	items: T[];
+	toText: (item: T) => string;
+	onChoose: (item: T) => void;
+
+	constructor(app: App, placeholder: string, items: T[], toText: (item: T) => string, onChoose: (item: T) => void) {
+		super(app);
+		this.setPlaceholder(placeholder);
+		this.items = items;
+		this.toText = toText;
+		this.onChoose = onChoose;
+	}
+
+	getItems(): T[] {
+		return this.items;
+	}
+
+	getItemText(item: T): string {
+		return this.toText(item);
+	}
+
+	onChooseItem(item: T): void {
+		this.onChoose(item);
+	}
+}
@@ -0,0 +1,78 @@
+import { CanvasData } from "canvas";
+import { splitTypedLabel } from "PropertyTypes";
+
+/**
+ * What canvas colors mean, from the color mapping setting
+ */
+export type ColorMappings = {
+	/** Edge color → the property key an unlabeled edge of that color writes */
+	edgeKeys: Map<string, string>;
+	/** Node color → the property value a note gets when its node has that color */
+	nodeValues: Map<string, { key: string, value: string }>;
+}
+
+/**
+ * Parses the color mapping setting
+ * @param setting one mapping per line: `edge 1: blocks` or `node 4: status = urgent`.
+ * Colors are canvas color numbers ("1" to "6") or hex colors like `#FF0000`.
+ */
+export function parseColorMappings(setting: string): ColorMappings {
+	const mappings: ColorMappings = { edgeKeys: new Map(), nodeValues: new Map() };
+	setting.split('\n').forEach(line => {
+		const match = line.trim().match(/^(edge|node)\s+(\S+?)\s*:\s*(.+)$/i);
+		if (match === null) return;
+		const color = normalizeColor(match[2]);
+		if (match[1].toLowerCase() === 'edge') {
+			mappings.edgeKeys.set(color, match[3].trim());
+			return;
+		}
+		const equals = match[3].indexOf('=');
+		if (equals <= 0) return;
+		const key = match[3].substring(0, equals).trim();
+		const value = match[3].substring(equals + 1).trim();
+		if (key !== '' && value !== '') mappings.nodeValues.set(color, { key: key, value: value });
+	});
+	return mappings;
+}
+
+/**
+ * The key an unlabeled edge of this color writes, if its color means one
+ */
+export function keyForEdgeColor(mappings: ColorMappings, color: string | undefined): string | undefined {
+	return color === undefined ? undefined : mappings.edgeKeys.get(normalizeColor(color));
+}
+
+/**
+ * The value a note gets from its node's color, if the color means one
+ */
+export function valueForNodeColor(mappings: ColorMappings, color: string | undefined): { key: string, value: string } | undefined {
+	return color === undefined ? undefined : mappings.nodeValues.get(normalizeColor(color));
+}
+
+/**
+ * Colors the file nodes whose notes hold a mapped value, and the edges whose key has a color. Mutates the canvas data.
+ * @param valuesOf reads the properties of the note at a path
+ */
+export function colorCanvas(data: CanvasData, mappings: ColorMappings, valuesOf: (path: string) => { [key: string]: unknown }) {
+	data.nodes.forEach(node => {
+		if (node.type !== 'file') return;
+		const values = valuesOf(node.file);
+		mappings.nodeValues.forEach((mapping, color) => {
+			const value = values[mapping.key];
+			const vals: unknown[] = Array.isArray(value) ? value : [value];
+			if (vals.some(val => val !== undefined && val !== null && String(val) === mapping.value)) node.color = color;
+		});
+	});
+	data.edges.forEach(edge => {
+		if (edge.label === undefined || edge.label === '') return;
+		const key = splitTypedLabel(edge.label).key;
+		mappings.edgeKeys.forEach((mappedKey, color) => {
+			if (edge.color === undefined && mappedKey === key) edge.color = color;
+		});
+	});
+}
+
+/** Hex colors are compared case-insensitively */
+function normalizeColor(color: string): string {
+	return color.trim().toLowerCase();
+}
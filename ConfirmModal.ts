@@ -0,0 +1,54 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks a yes/no question before doing something the user didn't directly ask for,
+ * optionally with a toggle for going further
+ */
+export class ConfirmModal extends Modal {
+	title: string;
+	message: string;
+	confirmText: string;
+	option?: string;
+	optionValue = false;
+	onConfirm: (optionValue: boolean) => void;
+
+	constructor(app: App, title: string, message: string, confirmText: string, onConfirm: (optionValue: boolean) => void, option?: string) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+		this.option = option;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(this.title);
+		contentEl.createEl('p', { text: this.message });
+
+		if (this.option !== undefined) {
+			new Setting(contentEl)
+				.setName(this.option)
+				.addToggle(toggle => toggle
+					.setValue(this.optionValue)
+					.onChange(value => this.optionValue = value));
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Keep')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText(this.confirmText)
+				.setWarning()
+				.onClick(() => {
+					this.close();
+					this.onConfirm(this.optionValue);
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
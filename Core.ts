@@ -0,0 +1,561 @@
+import { CanvasEdgeData, CanvasFileData, CanvasGroupData, CanvasLinkData, CanvasNodeData, CanvasTextData } from "canvas";
+import { parseInverseRelations } from "InverseRelations";
+import { ScalarType, splitTypedLabel } from "PropertyTypes";
+import { CanvasAxes, nodeAxisValues } from "Axes";
+import { keyForEdgeColor, parseColorMappings, valueForNodeColor } from "ColorMappings";
+
+/*
+ * How a canvas reads as note properties. Works on plain canvas JSON and leaves the vault to a
+ * `VaultLookup`, so it runs the same inside Obsidian and in the headless runner.
+ */
+
+/**
+ * What a note inside nested groups gets in its group property
+ */
+export enum GroupValues {
+	/** The label of every group it's inside, outermost first */
+	Ancestors,
+	/** Only the label of the innermost group */
+	Innermost,
+	/** One path per innermost group, e.g. `Projects/Alpha/Backend`, suitable for nested tags */
+	Path,
+}
+
+/**
+ * What an edge pointing at a group stands for
+ */
+export enum GroupEdges {
+	/** An edge to every node in the group */
+	Contents,
+	/** A link to the group itself, written as its label (or the note backing it) */
+	Group,
+}
+
+/** Key in an edge's canvas data that overrides the group edges setting for that edge */
+export const GROUP_EDGE_KEY = 'groupTarget';
+
+/**
+ * The settings that decide what a canvas writes into notes
+ */
+export interface CoreSettings {
+	cardDefault: string;
+	fileDefault: string;
+	urlDefault: string;
+	groupDefault: string;
+	/**
+	 * How membership of nested groups is written
+	 */
+	groupValues: GroupValues;
+	/**
+	 * Whether an edge to a group reaches the group's contents or the group itself, unless the edge says otherwise
+	 */
+	groupEdges: GroupEdges;
+	useCards: boolean;
+	useUrls: boolean;
+	useFiles: boolean;
+	useGroups: boolean;
+	/**
+	 * List of keys to ignore when doing all the things involving note properties
+	 */
+	excludeKeys: string;
+	/**
+	 * Pairs of keys that are each other's inverse, one `key, inverse key` pair per line
+	 */
+	inverseRelations: string;
+	/**
+	 * What canvas colors mean, one `edge <color>: key` or `node <color>: key = value` per line
+	 */
+	colorMappings: string;
+}
+
+export const DEFAULT_CORE_SETTINGS: CoreSettings = {
+	// The default strings for unlabeled edges
+	cardDefault: 'cards',
+	fileDefault: 'files',
+	urlDefault: 'urls',
+	// The string for group containment
+	groupDefault: 'groups',
+	groupValues: GroupValues.Ancestors,
+	groupEdges: GroupEdges.Contents,
+	// For disabling whole types of interactions
+	useCards: true,
+	useUrls: true,
+	useFiles: true,
+	useGroups: false,
+	excludeKeys: 'alias,aliases,tags,cssClasses',
+	inverseRelations: '',
+	colorMappings: ''
+}
+
+/**
+ * What the core needs to know about the vault a canvas belongs to
+ */
+export interface VaultLookup {
+	/** The text of a wikilink from a note to a file, without the brackets */
+	linkText(targetPath: string, fromPath: string): string;
+	/** The single-valued type a key has been given in the vault, if any */
+	registeredType(key: string): ScalarType | undefined;
+}
+
+export type RawCanvasObj = {
+	nodes: Array<CanvasNodeData>,
+	edges: Array<CanvasEdgeData>
+}
+
+export interface CanvasNodeMap {
+	cards?: Array<CanvasTextData>,
+	files?: Array<CanvasFileData> & { inGroups?: Array<CanvasGroupData> },
+	urls?: Array<CanvasLinkData>,
+	groups?: Array<CanvasGroupData>
+}
+
+export interface CanvasMap extends CanvasNodeMap {
+	edges?: Array<CanvasEdgeData & { isBidirectional: boolean, toGroupItself?: boolean }>
+}
+
+export type ConnectionProps = {
+	edgeId?: string;
+	otherSideId?: string;
+	otherSide?: CanvasNodeData
+	type?: 'card' | 'url' | 'file' | 'group';
+	isBidirectional?: boolean;
+	propLbl?: string;
+	propVal?: string;
+}
+
+/**
+ * The properties one file node on a canvas gives its note
+ */
+export interface NoteProps {
+	filePath: string;
+	/** `null` when nothing on the canvas touches the note */
+	propsOnCanvas: null | { [key: string]: string[] };
+	/** The connections that ended up as properties, kept for validation */
+	connections: ConnectionProps[];
+	/** The ids of the canvas edges (or containing groups) that produced each value, per key */
+	sources: { [key: string]: { [value: string]: string[] } };
+	/** Keys declared single-valued, by a label like `due:date` or the property type registry */
+	types: { [key: string]: ScalarType };
+}
+
+export function isGroup(val: Array<string>) {
+	return val.length > 1;
+}
+
+export function isFile(val: string): boolean {
+	if (val.substring(0, 2) !== '[[') return false;
+	if (val.substring(val.length - 2) !== ']]') return false;
+	if (val.split('[[').length !== 2) return false;
+	return true
+}
+
+export function isURL(val: string): boolean {
+	if (val.toUpperCase().substring(0, 4) !== 'HTTP') return false
+	if (val.indexOf('//') === -1) return false
+	if (val.length < 8) return false
+	return true
+}
+
+/**
+ * Whether the key is in the "Keys to ignore" setting (case-insensitive)
+ */
+export function isExcludedKey(settings: CoreSettings, key: string): boolean {
+	const excludeKeys = settings.excludeKeys.split(',').map(key => key.trim().toUpperCase());
+	return excludeKeys.some(exclusion => exclusion === key.toUpperCase());
+}
+
+export function getCanvasNodes(data: RawCanvasObj): CanvasMap | undefined {
+	if (data === undefined) return undefined;
+	let map: CanvasNodeMap = {
+		cards: (<CanvasTextData[]>data.nodes.filter((node) => node.type == 'text')),
+		files: (<CanvasFileData[]>data.nodes.filter((node) => node.type == 'file')),
+		urls: (<CanvasLinkData[]>data.nodes.filter((node) => node.type == 'link')),
+		groups: (<CanvasGroupData[]>data.nodes.filter((node) => node.type == 'group')),
+	}
+
+	/* Find wholly-contained groups; the smallest one around a group is its parent */
+	const groups = map.groups ?? [];
+	groups.forEach((group) => {
+		group.containedNodes = [] as CanvasNodeData[];
+		const enclosing = groups.filter(other => other !== group && groupContainsNode(other, group) && !groupContainsNode(group, other));
+		group.parentGroup = enclosing.sort((a, b) => a.width * a.height - b.width * b.height)[0];
+	})
+	groups.forEach((group) => {
+		groups.forEach((other) => {
+			if (other !== group && groupContainsNode(group, other) && !groupContainsNode(other, group)) group.containedNodes.push(other);
+		})
+	})
+
+	/* Find wholly-contained file-type nodes & add to group */
+	map.groups?.forEach((group) => {
+		map.files?.forEach((file) => {
+			if (groupContainsNode(group, file)) {
+				group.containedNodes.push(file);
+				if (file.hasOwnProperty('inGroups')) {
+					file.inGroups.push(group)
+				} else {
+					file.inGroups = [group];
+				}
+			}
+		})
+		map.cards?.forEach((cards) => {
+			if (groupContainsNode(group, cards)) {
+				group.containedNodes.push(cards);
+			}
+		})
+		map.urls?.forEach((urls) => {
+			if (groupContainsNode(group, urls)) {
+				group.containedNodes.push(urls);
+			}
+		})
+	})
+
+	/**
+	 * Returns true if the Group's outer bounds wholly contain the file's outer bounds.
+	 * Mimicks the behavior in Obsidian
+	 * @param group
+	 * @param node
+	 */
+	function groupContainsNode(group: CanvasGroupData, node: CanvasNodeData): boolean {
+		if (group.y > node.y) return false
+		if (group.y + group.height < node.y + node.height) return false
+		if (group.x > node.x) return false
+		if (group.x + group.width < node.x + node.width) return false
+		return true;
+	}
+
+	/* outermost group first */
+	map.files?.forEach((file) => {
+		if (file.inGroups !== undefined) file.inGroups.sort((a: CanvasGroupData, b: CanvasGroupData) => b.width * b.height - a.width * a.height);
+	})
+
+	return map;
+}
+
+export function getCanvasEdges(data: RawCanvasObj): CanvasEdgeData[] | undefined {
+	if (data === undefined) return undefined;
+	data.edges.forEach(edge => {
+		edge.isBidirectional = (edge.fromEnd === 'arrow' || edge.toEnd === 'none')
+	})
+	return data.edges
+}
+
+/**
+ * Sorts a canvas's nodes by type, works out which groups hold what, and turns edges to groups into
+ * edges to their contents. Decorates the canvas data it's given.
+ * @param groupEdges what edges to groups stand for, unless an edge has its own `groupTarget`
+ */
+export function getCanvasMapFromData(canvasData: RawCanvasObj, groupEdges = GroupEdges.Contents): CanvasMap | undefined {
+	let map = getCanvasNodes(canvasData)
+	if (!map) return undefined;
+
+	let edges = getCanvasEdges(canvasData)
+	map.edges = edges as unknown as Array<CanvasEdgeData & { isBidirectional: boolean }>;
+
+	edges?.forEach(edge => {
+		const toType = getTypeOfNodeById(edge.toNode);
+
+		if (toType === 'group') {
+			let group = map?.groups?.find(g => g.id === edge.toNode);
+			if (!group) throw new Error('Unmatched group. ID: ' + edge.toNode);
+			const target = edge[GROUP_EDGE_KEY] ?? (groupEdges === GroupEdges.Group ? 'group' : 'contents');
+			if (target === 'group') {
+				(edge as CanvasEdgeData & { toGroupItself?: boolean }).toGroupItself = true;
+				return;
+			}
+			/* create phantom edges to group contents */
+			makePhantomPropagatedEdgesToGroupContents(group, edge);
+		}
+	})
+
+	return map
+
+	function getTypeOfNodeById(nodeId: string) {
+		if (map?.cards?.some(card => card.id === nodeId)) return 'card'
+		if (map?.files?.some(file => file.id === nodeId)) return 'file'
+		if (map?.urls?.some(url => url.id === nodeId)) return 'url'
+		if (map?.groups?.some(group => group.id === nodeId)) return 'group'
+		throw new Error('No type found for id: ' + nodeId);
+	}
+
+	/**
+	 * Mutates the map to set its edges property to the passed-in edges AND
+	 * the "phantom" edges created by links-to-groups.
+	 * @param map
+	 * @param edges
+	 */
+	function makePhantomPropagatedEdgesToGroupContents(group: CanvasGroupData, edge: CanvasEdgeData, reached = new Set<string>()) {
+		group.containedNodes.forEach((node: CanvasNodeData) => {
+			if (reached.has(node.id)) return
+			reached.add(node.id)
+			/* inner groups pass the edge on to their own contents */
+			if (node.type === 'group') {
+				makePhantomPropagatedEdgesToGroupContents(node as CanvasGroupData, edge, reached);
+				return
+			}
+			if (node.id === edge.fromNode) return //a note pointing at its own group is already a member
+
+			const newEdge: CanvasEdgeData = {
+				id: edge.id + '-phantom',
+				fromNode: edge.fromNode,
+				fromSide: 'right', //doesn't matter
+				toNode: node.id,
+				toSide: 'left', //doesn't matter
+				label: edge.hasOwnProperty('label') ? edge.label : group.label
+			}
+
+			edges?.push(newEdge);
+		})
+	}
+}
+
+/**
+ * Works out the properties a file node gives its note, from the edges and groups around it,
+ * its color and its position along the canvas's axes
+ * @param axes the properties the canvas's x & y positions stand for, if any
+ */
+export function getNoteProps(file: CanvasFileData, data: CanvasMap, settings: CoreSettings, vault: VaultLookup, axes: CanvasAxes = {}): NoteProps {
+	const result: NoteProps = {
+		filePath: file.file,
+		propsOnCanvas: {},
+		connections: [],
+		sources: {},
+		types: {}
+	};
+	const props: { [key: string]: string[] } = {};
+	result.propsOnCanvas = props;
+
+	if (file.inGroups === undefined) file.inGroups = [];
+
+	const inverses = parseInverseRelations(settings.inverseRelations);
+	const colorMappings = parseColorMappings(settings.colorMappings);
+	/* an unlabeled edge whose color means a key writes that key */
+	const labelOf = (edge: CanvasEdgeData): string | undefined =>
+		edge.label !== undefined && edge.label !== '' ? edge.label : keyForEdgeColor(colorMappings, edge.color) ?? edge.label;
+	const colorValue = valueForNodeColor(colorMappings, file.color);
+	/* a type in the label wins over the vault's property types */
+	const resolveType = (label: string): { key: string, type?: ScalarType } => {
+		const typed = splitTypedLabel(label);
+		return { key: typed.key, type: typed.type ?? vault.registeredType(typed.key) };
+	};
+
+	let relevantIds = [file.id]; //the node ID itself...
+	relevantIds = [file.id, ...file.inGroups.map((g: CanvasGroupData) => g.id)]; //...+ any groups that contain it
+
+	const relevantEdges = data.edges?.filter(edge => {
+		if (relevantIds.some(id => edge.fromNode == id)) return true;
+		/* In case link is bi-directional */
+		if (relevantIds.some(id => edge.toNode == id && edge.isBidirectional)) return true;
+		/* In case the label has an inverse relation defined */
+		const label = labelOf(edge);
+		if (edge.toNode == file.id && label !== undefined && inverses.has(label)) return true;
+		return false;
+	});
+
+	const axisValues = nodeAxisValues(axes, file);
+
+	if (relevantEdges?.length === 0 && file.inGroups.length === 0 && Object.keys(axisValues).length === 0 && colorValue === undefined) {
+		result.propsOnCanvas = null;
+		return result;
+	}
+
+	let edges: ConnectionProps[] = (relevantEdges ?? []).map(edge => {
+		let newEdge: ConnectionProps = {
+			/* phantom edges to group contents point back at the edge to the group */
+			edgeId: edge.id.replace(/-phantom$/, ''),
+			otherSideId: edge.toNode,
+			isBidirectional: edge.isBidirectional
+		};
+		const isIncoming = file.id === newEdge.otherSideId;
+		if (isIncoming) newEdge.otherSideId = edge.fromNode;
+		newEdge.otherSide = data.cards?.find(card => card.id === newEdge.otherSideId);
+		newEdge.type = 'card';
+		newEdge.propLbl = settings.cardDefault;
+		if (newEdge.otherSide === undefined) {
+			newEdge.otherSide = data.urls?.find(url => url.id === newEdge.otherSideId);
+			newEdge.type = 'url';
+			newEdge.propLbl = settings.urlDefault;
+		}
+		if (newEdge.otherSide === undefined) {
+			newEdge.otherSide = data.files?.find(file => file.id === newEdge.otherSideId);
+			newEdge.type = 'file';
+			newEdge.propLbl = settings.fileDefault;
+		}
+		if (newEdge.otherSide === undefined) {
+			newEdge.otherSide = data.groups?.find(group => group.id === newEdge.otherSideId);
+			newEdge.type = 'group';
+			newEdge.propLbl = settings.groupDefault;
+		}
+		if (newEdge.otherSide === undefined) throw new Error('Could not find other side of edge');
+		if (newEdge.type === 'card') newEdge.propVal = newEdge.otherSide.text;
+		if (newEdge.type === 'url') newEdge.propVal = newEdge.otherSide.url;
+		if (newEdge.type === 'file') newEdge.propVal = wikilinkFor(newEdge.otherSide as CanvasFileData, file.file, vault);
+		/* only edges linking to the group itself carry a value, the rest were expanded into phantom edges */
+		if (newEdge.type === 'group' && edge.toGroupItself) newEdge.propVal = groupValue(newEdge.otherSide as CanvasGroupData);
+		const label = labelOf(edge);
+		if (label !== undefined) {
+			const typed = resolveType(label);
+			newEdge.propLbl = typed.key;
+			if (typed.type !== undefined) result.types[typed.key] = typed.type;
+		}
+		/* An arrow pointing at this note writes the inverse relation between notes, if there is one */
+		if (isIncoming && label !== undefined && inverses.has(label)) {
+			if (newEdge.type === 'file') newEdge.propLbl = inverses.get(label);
+			else if (!edge.isBidirectional) newEdge.propLbl = undefined;
+		}
+		return newEdge;
+	}).filter(newEdge => newEdge.propLbl !== undefined && newEdge.propLbl !== '');
+
+	result.connections = edges.filter(edge =>
+		(edge.type === 'card' && settings.useCards) ||
+		(edge.type === 'url' && settings.useUrls) ||
+		(edge.type === 'file' && settings.useFiles) ||
+		(edge.type === 'group' && edge.propVal !== undefined));
+
+	/* ALL PROPERTIES ARE ARRAYS OF STRINGS, typed keys are parsed into single values when written */
+	/* this -> contained in group */
+	const memberships = settings.useGroups ? groupMemberships(file.inGroups, settings.groupValues) : [];
+	if (memberships.length > 0) {
+		props[settings.groupDefault] = memberships.map(membership => membership.value);
+	}
+
+	const addValue = (key: string | undefined, val: string | undefined) => {
+		if (key === undefined || val === undefined) return;
+		if (!props.hasOwnProperty(key)) props[key] = [];
+		props[key].push(val);
+	}
+
+	/* this -> card */
+	if (settings.useCards) edges.filter(edge => edge.type === 'card').forEach(edge => addValue(edge.propLbl, edge.propVal));
+
+	/* this -> url */
+	if (settings.useUrls) edges.filter(edge => edge.type === 'url').forEach(edge => addValue(edge.propLbl, edge.propVal));
+
+	/* this -> note */
+	if (settings.useFiles) edges.filter(edge => edge.type === 'file').forEach(edge => addValue(edge.propLbl, edge.propVal));
+
+	/* this -> group itself, unless membership of the same group already gives the value */
+	edges.filter(edge => edge.type === 'group').forEach(edge => {
+		if (edge.propLbl !== undefined && edge.propVal !== undefined && props[edge.propLbl]?.includes(edge.propVal)) return;
+		addValue(edge.propLbl, edge.propVal);
+	});
+
+	/* this node's color -> the value the color means */
+	if (colorValue !== undefined) {
+		const typed = resolveType(colorValue.key);
+		if (typed.type !== undefined) result.types[typed.key] = typed.type;
+		if (!props.hasOwnProperty(typed.key)) props[typed.key] = [];
+		if (!props[typed.key].includes(colorValue.value)) props[typed.key].push(colorValue.value);
+	}
+
+	/* this -> position along the canvas's axes, a single value each */
+	Object.keys(axisValues).forEach(key => {
+		props[key] = [String(axisValues[key])];
+		result.types[key] = typeof axisValues[key] === 'number' ? 'number' : 'date';
+	});
+
+	/* remember where each value came from */
+	result.connections.forEach(edge => {
+		if (edge.propLbl !== undefined && edge.propVal !== undefined && edge.edgeId !== undefined) addSource(result.sources, edge.propLbl, edge.propVal, edge.edgeId);
+	});
+	if (colorValue !== undefined) addSource(result.sources, resolveType(colorValue.key).key, colorValue.value, file.id);
+	Object.keys(axisValues).forEach(key => addSource(result.sources, key, String(axisValues[key]), file.id));
+	memberships.forEach(membership => addSource(result.sources, settings.groupDefault, membership.value, membership.groupId));
+
+	return result;
+
+	function addSource(sources: { [key: string]: { [value: string]: string[] } }, key: string, value: string, id: string) {
+		if (!sources.hasOwnProperty(key)) sources[key] = {};
+		if (!sources[key].hasOwnProperty(value)) sources[key][value] = [];
+		if (!sources[key][value].includes(id)) sources[key][value].push(id);
+	}
+
+	/**
+	 * A group's label, or a link to the note inside it with the same name, which stands for the group
+	 */
+	function groupValue(group: CanvasGroupData): string | undefined {
+		const backing = (group.containedNodes ?? []).find((node: CanvasFileData) =>
+			node.type === 'file' && group.label !== undefined && node.file.split('/').pop() === group.label + '.md');
+		if (backing !== undefined) return wikilinkFor(backing, file.file, vault);
+		return group.label === '' ? undefined : group.label;
+	}
+}
+
+/**
+ * The wikilink to a file node's file, from the note (or canvas) at `fromPath`
+ */
+export function wikilinkFor(node: CanvasFileData, fromPath: string, vault: VaultLookup): string {
+	let linkTextContent = vault.linkText(node.file, fromPath);
+	/* see if Subpaths were used */
+	if (node.hasOwnProperty("subpath")) linkTextContent = linkTextContent + node.subpath;
+	return "[[" + linkTextContent + "]]";
+}
+
+/**
+ * Combines the props of file nodes for the same note, for when a note is on a canvas more than once.
+ * Notes the canvas gives nothing are left out. Mutates the first node found for each note.
+ */
+export function mergeNoteProps<T extends NoteProps>(notes: T[]): T[] {
+	const deduped: T[] = [];
+	notes.forEach(note => {
+		if (note.propsOnCanvas === null) return
+
+		let existing = deduped.find(ogNote => ogNote.filePath === note.filePath);
+
+		if (existing === undefined) {
+			deduped.push(note);
+			return
+		}
+
+		existing.propsOnCanvas = mergeProps(existing.propsOnCanvas ?? {}, note.propsOnCanvas);
+		existing.sources = mergeSources(existing.sources, note.sources);
+		existing.types = Object.assign({}, existing.types, note.types);
+	})
+
+	return deduped.filter(note => note.propsOnCanvas && Object.keys(note.propsOnCanvas).length > 0);
+
+	function mergeSources(a: { [key: string]: { [value: string]: string[] } }, b: { [key: string]: { [value: string]: string[] } }) {
+		Object.keys(b).forEach(key => {
+			if (!a.hasOwnProperty(key)) a[key] = {};
+			Object.keys(b[key]).forEach(val => {
+				a[key][val] = [...new Set([...(a[key][val] ?? []), ...b[key][val]])];
+			});
+		})
+		return a;
+	}
+
+	function mergeProps(a: { [key: string]: string[] }, b: { [key: string]: string[] }) {
+		Object.keys(b).forEach(key => {
+			if (a.hasOwnProperty(key)) {
+				a[key] = [...a[key], ...b[key]];
+			} else {
+				a[key] = b[key];
+			}
+		})
+		return a;
+	}
+}
+
+/**
+ * The group property values for a note inside the given groups (outermost first), and the group each comes from
+ */
+function groupMemberships(inGroups: CanvasGroupData[], mode: GroupValues): Array<{ value: string, groupId: string }> {
+	const ancestorsOf = (group: CanvasGroupData): CanvasGroupData[] =>
+		group.parentGroup === undefined ? [] : [group.parentGroup, ...ancestorsOf(group.parentGroup)];
+	const innermost = inGroups.filter(group => !inGroups.some(other => ancestorsOf(other).includes(group)));
+
+	if (mode === GroupValues.Innermost) {
+		return labeled(innermost);
+	}
+	if (mode === GroupValues.Path) {
+		return innermost.map(group => ({
+			value: [group, ...ancestorsOf(group)].reverse().map(each => each.label).filter(label => label).join('/'),
+			groupId: group.id
+		})).filter(membership => membership.value !== '');
+	}
+	return labeled(inGroups);
+
+	function labeled(groups: CanvasGroupData[]): Array<{ value: string, groupId: string }> {
+		return groups.flatMap(group => group.label ? [{ value: group.label, groupId: group.id }] : []);
+	}
+}
@@ -0,0 +1,184 @@
+import { CanvasFileData, CanvasGroupData, CanvasNodeData } from "canvas";
+import { CanvasMap, VaultLookup, wikilinkFor } from "Core";
+
+/**
+ * A node of a canvas, reduced to what a diagram shows
+ */
+export type DiagramNode = {
+	id: string;
+	type: 'file' | 'card' | 'url' | 'group';
+	/** The wikilink for files, the text for cards, the URL for urls and the label for groups */
+	text: string;
+	/** The id of the innermost group the node sits in */
+	group?: string;
+}
+
+export type DiagramEdge = {
+	id: string;
+	from: string;
+	to: string;
+	label: string;
+	bidirectional: boolean;
+}
+
+/**
+ * The relations on a canvas, independent of its layout
+ */
+export type Diagram = {
+	nodes: DiagramNode[];
+	edges: DiagramEdge[];
+}
+
+/**
+ * Reads a canvas map into a diagram. Edges to groups stay edges to the group, not to its contents.
+ * @param canvasPath the canvas, which file node links are written from
+ */
+export function diagramOfCanvas(map: CanvasMap, canvasPath: string, vault: VaultLookup): Diagram {
+	const groups = map.groups ?? [];
+	const innermostGroup = (node: CanvasNodeData): string | undefined => groups
+		.filter(group => group !== node && group.containedNodes.some((contained: CanvasNodeData) => contained.id === node.id))
+		.sort((a, b) => a.width * a.height - b.width * b.height)[0]?.id;
+
+	const nodes: DiagramNode[] = [
+		...groups.map(group => ({ id: group.id, type: 'group' as const, text: group.label ?? '', group: (group as CanvasGroupData).parentGroup?.id })),
+		...(map.files ?? []).map(node => ({ id: node.id, type: 'file' as const, text: wikilinkFor(node as CanvasFileData, canvasPath, vault), group: innermostGroup(node) })),
+		...(map.cards ?? []).map(node => ({ id: node.id, type: 'card' as const, text: node.text, group: innermostGroup(node) })),
+		...(map.urls ?? []).map(node => ({ id: node.id, type: 'url' as const, text: node.url, group: innermostGroup(node) }))
+	];
+	const edges: DiagramEdge[] = (map.edges ?? [])
+		/* phantom edges stand in for an edge to a group, which the diagram draws as it is */
+		.filter(edge => !edge.id.endsWith('-phantom'))
+		.filter(edge => nodes.some(node => node.id === edge.fromNode) && nodes.some(node => node.id === edge.toNode))
+		.map(edge => ({ id: edge.id, from: edge.fromNode, to: edge.toNode, label: edge.label ?? '', bidirectional: edge.isBidirectional }));
+	return { nodes: nodes, edges: edges };
+}
+
+/**
+ * A Mermaid flowchart, groups as subgraphs. Without the surrounding code fence.
+ */
+export function toMermaid(diagram: Diagram): string {
+	const ids = shortIds(diagram);
+	const lines = ['flowchart LR'];
+	writeMembers(undefined, '    ');
+	diagram.edges.forEach(edge => {
+		const arrow = edge.bidirectional ? '<-->' : '-->';
+		const label = edge.label === '' ? '' : `|"${mermaidText(edge.label)}"|`;
+		lines.push(`    ${ids.get(edge.from)} ${arrow}${label} ${ids.get(edge.to)}`);
+	});
+	return lines.join('\n') + '\n';
+
+	function writeMembers(groupId: string | undefined, indent: string) {
+		diagram.nodes.filter(node => node.group === groupId).forEach(node => {
+			const id = ids.get(node.id);
+			const text = `"${mermaidText(node.text)}"`;
+			if (node.type === 'group') {
+				lines.push(`${indent}subgraph ${id}[${node.text === '' ? '" "' : text}]`);
+				writeMembers(node.id, indent + '    ');
+				lines.push(`${indent}end`);
+				return;
+			}
+			if (node.type === 'file') lines.push(`${indent}${id}[${text}]`);
+			if (node.type === 'card') lines.push(`${indent}${id}(${text})`);
+			if (node.type === 'url') lines.push(`${indent}${id}([${text}])`);
+		});
+	}
+}
+
+/**
+ * A Graphviz digraph, groups as clusters. Edges to a group are drawn up to the cluster's border.
+ */
+export function toDot(diagram: Diagram, name: string): string {
+	const ids = shortIds(diagram);
+	const lines = [`digraph ${dotString(name)} {`, '\tcompound=true;', '\trankdir=LR;', '\tnode [shape=box];'];
+	writeMembers(undefined, '\t');
+	diagram.edges.forEach(edge => {
+		const from = diagram.nodes.find(node => node.id === edge.from);
+		const to = diagram.nodes.find(node => node.id === edge.to);
+		const attributes: string[] = [];
+		if (edge.label !== '') attributes.push(`label=${dotString(edge.label)}`);
+		if (edge.bidirectional) attributes.push('dir=both');
+		if (from?.type === 'group') attributes.push(`ltail=cluster_${ids.get(from.id)}`);
+		if (to?.type === 'group') attributes.push(`lhead=cluster_${ids.get(to.id)}`);
+		lines.push(`\t${ids.get(edge.from)} -> ${ids.get(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+	});
+	lines.push('}');
+	return lines.join('\n') + '\n';
+
+	function writeMembers(groupId: string | undefined, indent: string) {
+		diagram.nodes.filter(node => node.group === groupId).forEach(node => {
+			const id = ids.get(node.id);
+			if (node.type === 'group') {
+				lines.push(`${indent}subgraph cluster_${id} {`);
+				lines.push(`${indent}\tlabel=${dotString(node.text)};`);
+				/* edges to the group need a node inside it to point at */
+				lines.push(`${indent}\t${id} [shape=point, style=invis];`);
+				writeMembers(node.id, indent + '\t');
+				lines.push(`${indent}}`);
+				return;
+			}
+			const style = node.type === 'card' ? ', style=rounded' : node.type === 'url' ? ', style=dashed' : '';
+			lines.push(`${indent}${id} [label=${dotString(node.text)}${style}];`);
+		});
+	}
+}
+
+/**
+ * A GraphML document, groups as nodes holding a nested graph. Canvas ids are kept as node and edge ids.
+ */
+export function toGraphMl(diagram: Diagram): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+		'  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+		'  <key id="text" for="node" attr.name="text" attr.type="string"/>',
+		'  <key id="label" for="edge" attr.name="label" attr.type="string"/>',
+		'  <key id="bidirectional" for="edge" attr.name="bidirectional" attr.type="boolean"/>',
+		'  <graph id="canvas" edgedefault="directed">'
+	];
+	writeMembers(undefined, '    ');
+	diagram.edges.forEach(edge => {
+		lines.push(`    <edge id="${xmlText(edge.id)}" source="${xmlText(edge.from)}" target="${xmlText(edge.to)}">`);
+		if (edge.label !== '') lines.push(`      <data key="label">${xmlText(edge.label)}</data>`);
+		lines.push(`      <data key="bidirectional">${edge.bidirectional}</data>`);
+		lines.push('    </edge>');
+	});
+	lines.push('  </graph>', '</graphml>');
+	return lines.join('\n') + '\n';
+
+	function writeMembers(groupId: string | undefined, indent: string) {
+		diagram.nodes.filter(node => node.group === groupId).forEach(node => {
+			lines.push(`${indent}<node id="${xmlText(node.id)}">`);
+			lines.push(`${indent}  <data key="type">${node.type}</data>`);
+			lines.push(`${indent}  <data key="text">${xmlText(node.text)}</data>`);
+			if (node.type === 'group') {
+				lines.push(`${indent}  <graph id="${xmlText(node.id)}:" edgedefault="directed">`);
+				writeMembers(node.id, indent + '    ');
+				lines.push(`${indent}  </graph>`);
+			}
+			lines.push(`${indent}</node>`);
+		});
+	}
+}
+
+/**
+ * Canvas ids can start with digits, which not every format accepts, so nodes get `n0`, `n1`... and groups `g0`, `g1`...
+ */
+function shortIds(diagram: Diagram): Map<string, string> {
+	const ids = new Map<string, string>();
+	let groups = 0;
+	let others = 0;
+	diagram.nodes.forEach(node => ids.set(node.id, node.type === 'group' ? `g${groups++}` : `n${others++}`));
+	return ids;
+}
+
+function mermaidText(text: string): string {
+	return text.replace(/"/g, '#quot;').replace(/\r?\n/g, '<br>');
+}
+
+function dotString(text: string): string {
+	return '"' + text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n') + '"';
+}
+
+function xmlText(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
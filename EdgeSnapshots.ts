@@ -0,0 +1,113 @@
+import { CanvasData } from "canvas";
+
+/**
+ * What the canvas watcher remembers about an edge, enough to act on it even after its nodes are gone
+ */
+export type EdgeSnapshot = {
+	fromNode: string;
+	toNode: string;
+	/** Vault path of the file at the start of the edge, if it starts at a file node */
+	fromFile?: string;
+	/** Vault path of the file at the end of the edge, if it ends at a file node */
+	toFile?: string;
+	/** Text or URL of the node at the end of the edge, if it ends at a card or link */
+	toText?: string;
+	label?: string;
+	fromEnd?: string;
+	toEnd?: string;
+}
+
+/**
+ * The edges of one canvas, keyed by edge id
+ */
+export type CanvasEdgeSnapshot = { [edgeId: string]: EdgeSnapshot };
+
+/**
+ * Records the current edges of a canvas
+ */
+export function snapshotEdges(data: CanvasData): CanvasEdgeSnapshot {
+	const snapshot: CanvasEdgeSnapshot = {};
+	const fileById = new Map<string, string>();
+	const textById = new Map<string, string>();
+	data.nodes.forEach(node => {
+		if (node.type === 'file') fileById.set(node.id, node.file);
+		if (node.type === 'text') textById.set(node.id, node.text);
+		if (node.type === 'link') textById.set(node.id, node.url);
+	});
+	data.edges.forEach(edge => {
+		snapshot[edge.id] = {
+			fromNode: edge.fromNode,
+			toNode: edge.toNode,
+			fromFile: fileById.get(edge.fromNode),
+			toFile: fileById.get(edge.toNode),
+			toText: textById.get(edge.toNode),
+			label: edge.label,
+			fromEnd: edge.fromEnd,
+			toEnd: edge.toEnd
+		};
+	});
+	return snapshot;
+}
+
+/**
+ * Same rule as the rest of the plugin: an arrowhead at the start, or none at the end
+ */
+export function isBidirectional(edge: EdgeSnapshot): boolean {
+	return edge.fromEnd === 'arrow' || edge.toEnd === 'none';
+}
+
+/**
+ * An edge that's still on the canvas, but was relabeled, had its arrowheads changed or was reconnected
+ */
+export type EdgeChange = {
+	id: string;
+	before: EdgeSnapshot;
+	after: EdgeSnapshot;
+}
+
+/**
+ * The edges added, removed and changed between two snapshots of the same canvas
+ */
+export function diffEdgeSnapshots(previous: CanvasEdgeSnapshot, current: CanvasEdgeSnapshot): { added: EdgeSnapshot[], removed: EdgeSnapshot[], changed: EdgeChange[] } {
+	const added = Object.keys(current).filter(id => !previous.hasOwnProperty(id)).map(id => current[id]);
+	const removed = Object.keys(previous).filter(id => !current.hasOwnProperty(id)).map(id => previous[id]);
+	const changed = Object.keys(current)
+		.filter(id => previous.hasOwnProperty(id) && !sameEdge(previous[id], current[id]))
+		.map(id => ({ id: id, before: previous[id], after: current[id] }));
+	return { added: added, removed: removed, changed: changed };
+}
+
+function sameEdge(a: EdgeSnapshot, b: EdgeSnapshot): boolean {
+	return a.fromNode === b.fromNode && a.toNode === b.toNode &&
+		a.fromFile === b.fromFile && a.toFile === b.toFile &&
+		(a.label ?? '') === (b.label ?? '') &&
+		isBidirectional(a) === isBidirectional(b);
+}
+
+/**
+ * A card or link at the end of an edge whose text changed, e.g. from `In Progress` to `Doing`
+ */
+export type NodeTextChange = {
+	nodeId: string;
+	before: string;
+	after: string;
+}
+
+/**
+ * The cards and links with edges into them whose text or URL differs between two snapshots of the same canvas
+ */
+export function diffNodeTexts(previous: CanvasEdgeSnapshot, current: CanvasEdgeSnapshot): NodeTextChange[] {
+	const before = new Map<string, string>();
+	Object.keys(previous).forEach(id => {
+		const edge = previous[id];
+		if (edge.toText !== undefined) before.set(edge.toNode, edge.toText);
+	});
+	const changes = new Map<string, NodeTextChange>();
+	Object.keys(current).forEach(id => {
+		const edge = current[id];
+		const old = before.get(edge.toNode);
+		if (edge.toText === undefined || old === undefined || old === edge.toText) return;
+		changes.set(edge.toNode, { nodeId: edge.toNode, before: old, after: edge.toText });
+	});
+	return Array.from(changes.values());
+}
@@ -0,0 +1,7 @@
+/*
+ * Stands in for the `obsidian` module when the core runs outside of Obsidian, see esbuild.cli.mjs.
+ * Only has what the core uses at runtime: the moment library, which Obsidian re-exports.
+ */
+import moment from "moment";
+
+export { moment };
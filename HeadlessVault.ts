@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { RawCanvasObj, VaultLookup } from "Core";
+import { asScalarType, ScalarType } from "PropertyTypes";
+
+const PLUGIN_ID = 'semantic-canvas';
+
+/**
+ * A vault read straight from disk, for running the core without Obsidian.
+ * Paths are vault paths like Obsidian's: relative to the vault folder, with forward slashes.
+ */
+export class HeadlessVault implements VaultLookup {
+	root: string;
+	configDir: string;
+	/** The path of every file in the vault, leaving out hidden files and folders like Obsidian does */
+	files: string[];
+	/** Property types from Obsidian's registry, by key */
+	private types: { [key: string]: unknown };
+
+	constructor(root: string, configDir = '.obsidian') {
+		if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) throw new Error(`No vault folder at ${root}`);
+		this.root = root;
+		this.configDir = configDir;
+		this.files = listFiles(root, '');
+		this.types = readJson<{ types?: { [key: string]: unknown } }>(path.join(root, configDir, 'types.json'))?.types ?? {};
+	}
+
+	exists(vaultPath: string): boolean {
+		return this.files.includes(vaultPath);
+	}
+
+	readCanvas(vaultPath: string): RawCanvasObj {
+		if (!this.exists(vaultPath) || !vaultPath.endsWith('.canvas')) throw new Error(`No canvas found at ${vaultPath}`);
+		const canvas = JSON.parse(fs.readFileSync(this.fullPath(vaultPath), 'utf8'));
+		return { nodes: canvas.nodes ?? [], edges: canvas.edges ?? [] };
+	}
+
+	/**
+	 * A note's frontmatter, read the way Obsidian reads it: dates stay text
+	 * @returns `undefined` when the note has none
+	 */
+	readFrontmatter(vaultPath: string): { [key: string]: unknown } | undefined {
+		const yamlLines = splitFrontmatter(fs.readFileSync(this.fullPath(vaultPath), 'utf8')).yamlLines;
+		if (yamlLines === undefined) return undefined;
+		let frontmatter: unknown;
+		try {
+			frontmatter = yaml.load(yamlLines.join('\n'), { schema: yaml.CORE_SCHEMA });
+		} catch (e) {
+			throw new Error(`Can't read the properties of ${vaultPath}: ${e instanceof Error ? e.message : e}`);
+		}
+		return typeof frontmatter === 'object' && frontmatter !== null && !Array.isArray(frontmatter) ? frontmatter as { [key: string]: unknown } : undefined;
+	}
+
+	/**
+	 * Rewrites the given keys of a note's frontmatter, leaving every other line of the note as it was.
+	 * New keys go at the end of the frontmatter. Comment lines in a rewritten key's block are kept,
+	 * and the note keeps its line endings.
+	 * @param updates the new value per key, `undefined` to remove the key
+	 */
+	writeFrontmatter(vaultPath: string, updates: { [key: string]: unknown }) {
+		const { yamlLines, body, eol } = splitFrontmatter(fs.readFileSync(this.fullPath(vaultPath), 'utf8'));
+		const written = new Set<string>();
+		const lines: string[] = [];
+		toBlocks(yamlLines ?? []).forEach(block => {
+			if (block.key === undefined || !updates.hasOwnProperty(block.key)) {
+				lines.push(...block.lines);
+				return;
+			}
+			written.add(block.key);
+			if (updates[block.key] !== undefined) lines.push(...dumpKey(block.key, updates[block.key]));
+			lines.push(...commentLines(block.lines));
+		});
+		Object.keys(updates)
+			.filter(key => !written.has(key) && updates[key] !== undefined)
+			.forEach(key => lines.push(...dumpKey(key, updates[key])));
+		fs.writeFileSync(this.fullPath(vaultPath), ['---', ...lines, '---'].join(eol) + eol + body);
+	}
+
+	/**
+	 * The plugin's saved settings and records, `undefined` when the plugin isn't set up in this vault
+	 */
+	readPluginData(): { [key: string]: unknown } | undefined {
+		return readJson(this.pluginDataPath());
+	}
+
+	writePluginData(data: { [key: string]: unknown }) {
+		fs.writeFileSync(this.pluginDataPath(), JSON.stringify(data, null, 2));
+	}
+
+	/**
+	 * The shortest link that finds the file: its name when no other file has it, its path otherwise
+	 */
+	linkText(targetPath: string): string {
+		const nameOf = (vaultPath: string) => vaultPath.substring(vaultPath.lastIndexOf('/') + 1);
+		const name = nameOf(targetPath);
+		const sameName = this.files.filter(file => nameOf(file).toLowerCase() === name.toLowerCase());
+		const link = sameName.length > 1 ? targetPath : name;
+		return link.endsWith('.md') ? link.substring(0, link.length - 3) : link;
+	}
+
+	registeredType(key: string): ScalarType | undefined {
+		return asScalarType(this.types[key]);
+	}
+
+	private fullPath(vaultPath: string): string {
+		return path.join(this.root, ...vaultPath.split('/'));
+	}
+
+	private pluginDataPath(): string {
+		return path.join(this.root, this.configDir, 'plugins', PLUGIN_ID, 'data.json');
+	}
+}
+
+function listFiles(root: string, folder: string): string[] {
+	return fs.readdirSync(path.join(root, folder), { withFileTypes: true })
+		.filter(entry => !entry.name.startsWith('.'))
+		.reduce((files: string[], entry) => {
+			const vaultPath = folder === '' ? entry.name : folder + '/' + entry.name;
+			if (entry.isDirectory()) return [...files, ...listFiles(root, vaultPath)];
+			return entry.isFile() ? [...files, vaultPath] : files;
+		}, []);
+}
+
+function readJson<T>(file: string): T | undefined {
+	if (!fs.existsSync(file)) return undefined;
+	return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Separates the frontmatter lines, between the `---` lines at the top of a note, from the rest of it
+ * @returns no `yamlLines` when the note has no frontmatter, and the line ending the note uses
+ */
+function splitFrontmatter(text: string): { yamlLines?: string[], body: string, eol: string } {
+	const eol = text.indexOf('\r\n') === -1 ? '\n' : '\r\n';
+	const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+	if (lines[0] !== '---') return { body: text, eol: eol };
+	const end = lines.findIndex((line, index) => index > 0 && line === '---');
+	if (end === -1) return { body: text, eol: eol };
+	/* the body is left exactly as it was, whatever its line endings */
+	const bodyStart = text.split('\n').slice(0, end + 1).join('\n').length + 1;
+	return { yamlLines: lines.slice(1, end), body: text.substring(bodyStart), eol: eol };
+}
+
+/**
+ * Splits frontmatter lines into one block per top-level key, so keys can be rewritten one at a time.
+ * Lines that don't start a key (indented lines, list items, comments) belong to the block above them.
+ */
+function toBlocks(lines: string[]): Array<{ key?: string, lines: string[] }> {
+	const blocks: Array<{ key?: string, lines: string[] }> = [];
+	lines.forEach(line => {
+		const startsKey = /^[^\s#-]/.test(line) || /^-[^\s-]/.test(line);
+		if (startsKey || blocks.length === 0) blocks.push({ lines: [] });
+		blocks[blocks.length - 1].lines.push(line);
+	});
+	blocks.forEach(block => {
+		try {
+			const parsed = yaml.load(block.lines.join('\n'), { schema: yaml.CORE_SCHEMA });
+			const keys = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? Object.keys(parsed) : [];
+			if (keys.length === 1) block.key = keys[0];
+		} catch (e) {
+			/* not a key of its own, written back as it was */
+		}
+	});
+	return blocks;
+}
+
+/**
+ * The comment lines of a key's block, which rewriting the key would otherwise lose.
+ * Inside a block scalar (`|` or `>`) lines starting with `#` are text, not comments.
+ */
+function commentLines(blockLines: string[]): string[] {
+	if (/:\s*[|>][-+0-9]*\s*(#.*)?$/.test(blockLines[0])) return [];
+	return blockLines.slice(1).filter(line => /^\s*#/.test(line));
+}
+
+/**
+ * The frontmatter lines for one key, formatted like Obsidian writes them
+ */
+function dumpKey(key: string, value: unknown): string[] {
+	return yaml.dump({ [key]: value }, { schema: yaml.CORE_SCHEMA, lineWidth: -1, quotingType: '"' }).replace(/\n$/, '').split('\n');
+}
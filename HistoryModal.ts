@@ -0,0 +1,49 @@
+import { App, Modal, Setting } from "obsidian";
+import { JournalTransaction } from "Journal";
+
+/**
+ * Lists past Semantic Canvas operations, newest first, each with a button to revert it.
+ */
+export class HistoryModal extends Modal {
+	transactions: JournalTransaction[];
+	onRevert: (tx: JournalTransaction) => Promise<void>;
+
+	constructor(app: App, transactions: JournalTransaction[], onRevert: (tx: JournalTransaction) => Promise<void>) {
+		super(app);
+		this.transactions = transactions;
+		this.onRevert = onRevert;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Semantic Canvas history');
+
+		if (this.transactions.length === 0) {
+			contentEl.createEl('p', { text: 'Nothing to undo.' });
+			return;
+		}
+
+		[...this.transactions].reverse().forEach(tx => {
+			const paths = [...new Set(tx.changes.map(change => change.path))];
+			new Setting(contentEl)
+				.setName(tx.label)
+				.setDesc(`${new Date(tx.timestamp).toLocaleString()} · ${tx.changes.length} change(s) in ${paths.join(', ')}`)
+				.addButton(btn => btn
+					.setButtonText('Revert')
+					.onClick(async () => {
+						await this.onRevert(tx);
+						this.transactions = this.transactions.filter(t => t.id !== tx.id);
+						this.render();
+					}));
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,15 @@
+/**
+ * Parses the inverse relation setting into a lookup that works in both directions,
+ * so `parent, child` maps `parent` → `child` and `child` → `parent`.
+ * @param setting one `key, inverse key` pair per line
+ */
+export function parseInverseRelations(setting: string): Map<string, string> {
+	const inverses = new Map<string, string>();
+	setting.split('\n').forEach(line => {
+		const pair = line.split(',').map(key => key.trim());
+		if (pair.length !== 2 || pair[0] === '' || pair[1] === '') return;
+		inverses.set(pair[0], pair[1]);
+		inverses.set(pair[1], pair[0]);
+	});
+	return inverses;
+}
@@ -0,0 +1,190 @@
+import { App, TFile } from "obsidian";
+
+/**
+ * The before-state of one thing a transaction touched
+ */
+export type JournalChange =
+	| { kind: 'frontmatter', path: string, key: string, existed: boolean, before: unknown }
+	| { kind: 'section', path: string, heading: string, before: string | null }
+	| { kind: 'canvas', path: string, before: string };
+
+/**
+ * One user-facing operation (a push, a pull, a backlink update...) that can be undone as a unit
+ */
+export type JournalTransaction = {
+	id: string;
+	label: string;
+	timestamp: number;
+	changes: JournalChange[];
+}
+
+/**
+ * Records the before-state of everything Semantic Canvas writes so operations can be reverted.
+ * Only the first capture of any given key/section/canvas per transaction is kept, since that's
+ * the state to go back to.
+ */
+export class Journal {
+	transactions: JournalTransaction[];
+	maxSize: number;
+
+	constructor(transactions: JournalTransaction[], maxSize: number) {
+		this.transactions = transactions;
+		this.maxSize = maxSize;
+	}
+
+	begin(label: string): JournalTransaction {
+		return {
+			id: (Math.random() + 1).toString(36).substring(4),
+			label: label,
+			timestamp: Date.now(),
+			changes: []
+		}
+	}
+
+	/**
+	 * Adds the transaction to the journal if it recorded anything
+	 * @returns true if the journal changed and should be saved
+	 */
+	commit(tx: JournalTransaction): boolean {
+		if (tx.changes.length === 0) return false;
+		this.transactions.push(tx);
+		this.trim();
+		return true;
+	}
+
+	/**
+	 * Drops the oldest transactions beyond `maxSize`
+	 */
+	trim() {
+		while (this.transactions.length > this.maxSize) this.transactions.shift();
+	}
+
+	/**
+	 * Points the recorded changes of a renamed or moved file at its new path, so they can still be reverted
+	 */
+	renamePath(oldPath: string, newPath: string) {
+		this.transactions.forEach(tx => tx.changes.forEach(change => {
+			if (change.path === oldPath) change.path = newPath;
+		}));
+	}
+
+	/**
+	 * Call from inside `processFrontMatter`, before mutating the key
+	 */
+	captureFrontmatter(tx: JournalTransaction | undefined, path: string, frontmatter: { [key: string]: unknown }, key: string) {
+		if (tx === undefined) return;
+		if (tx.changes.some(c => c.kind === 'frontmatter' && c.path === path && c.key === key)) return;
+		const existed = frontmatter.hasOwnProperty(key);
+		tx.changes.push({
+			kind: 'frontmatter',
+			path: path,
+			key: key,
+			existed: existed,
+			before: existed ? JSON.parse(JSON.stringify(frontmatter[key] ?? null)) : null
+		});
+	}
+
+	/**
+	 * Call with the full note content before rewriting the section under `heading`
+	 */
+	captureSection(tx: JournalTransaction | undefined, path: string, heading: string, content: string) {
+		if (tx === undefined) return;
+		if (tx.changes.some(c => c.kind === 'section' && c.path === path && c.heading === heading)) return;
+		tx.changes.push({
+			kind: 'section',
+			path: path,
+			heading: heading,
+			before: getSection(content, heading)
+		});
+	}
+
+	/**
+	 * Call with the raw canvas JSON before saving over it
+	 */
+	captureCanvas(tx: JournalTransaction | undefined, path: string, content: string) {
+		if (tx === undefined) return;
+		if (tx.changes.some(c => c.kind === 'canvas' && c.path === path)) return;
+		tx.changes.push({
+			kind: 'canvas',
+			path: path,
+			before: content
+		});
+	}
+
+	/**
+	 * Restores everything the transaction touched and drops it from the journal.
+	 * Changes are restored newest-first. Files that no longer exist are skipped.
+	 * @returns the number of changes that could not be restored
+	 */
+	async revert(app: App, tx: JournalTransaction): Promise<number> {
+		let skipped = 0;
+		for (const change of [...tx.changes].reverse()) {
+			const file = app.vault.getFileByPath(change.path);
+			if (file === null) {
+				skipped = skipped + 1;
+				continue;
+			}
+			await restoreChange(app, file, change);
+		}
+		this.transactions = this.transactions.filter(t => t.id !== tx.id);
+		return skipped;
+	}
+}
+
+async function restoreChange(app: App, file: TFile, change: JournalChange) {
+	switch (change.kind) {
+		case 'frontmatter':
+			await app.fileManager.processFrontMatter(file, (frontmatter) => {
+				if (change.existed) {
+					frontmatter[change.key] = change.before;
+				} else {
+					delete frontmatter[change.key];
+				}
+			});
+			return;
+		case 'section': {
+			const content = await app.vault.read(file);
+			await app.vault.modify(file, replaceSection(content, change.heading, change.before));
+			return;
+		}
+		case 'canvas':
+			await app.vault.modify(file, change.before);
+			return;
+	}
+}
+
+function findHeading(content: string, heading: string): RegExpMatchArray | null {
+	const headingRegex = new RegExp(`^${heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'm');
+	return content.match(headingRegex);
+}
+
+/**
+ * @returns the text between the heading line and the next heading, or null if there's no such heading
+ */
+function getSection(content: string, heading: string): string | null {
+	const headingMatch = findHeading(content, heading);
+	if (!headingMatch) return null;
+	const afterHeading = content.substring((headingMatch.index ?? 0) + headingMatch[0].length);
+	const nextHeadingMatch = afterHeading.match(/^#+\s/m);
+	return afterHeading.substring(0, nextHeadingMatch?.index ?? afterHeading.length);
+}
+
+/**
+ * Puts the section back the way it was. A `null` section means it didn't exist, so it gets removed.
+ */
+export function replaceSection(content: string, heading: string, section: string | null): string {
+	const headingMatch = findHeading(content, heading);
+	if (!headingMatch) {
+		if (section === null) return content;
+		return `${content.trimEnd()}\n\n${heading}${section}`;
+	}
+	const headingIndex = headingMatch.index ?? 0;
+	const afterHeading = content.substring(headingIndex + headingMatch[0].length);
+	const nextHeadingMatch = afterHeading.match(/^#+\s/m);
+	const rest = afterHeading.substring(nextHeadingMatch?.index ?? afterHeading.length);
+	if (section === null) {
+		const beforeHeading = content.substring(0, headingIndex).trimEnd();
+		return beforeHeading + (rest ? '\n\n' + rest : '\n');
+	}
+	return content.substring(0, headingIndex) + heading + section + rest;
+}
@@ -0,0 +1,101 @@
+import { CanvasData, CanvasFileData, CanvasGroupData, CanvasNodeData } from "canvas";
+
+/**
+ * The column (group label) each file node sits in on a kanban canvas, keyed by node id.
+ * Nodes outside every column are left out.
+ */
+export type KanbanColumns = { [nodeId: string]: string };
+
+const COLUMN_WIDTH = 300;
+const CARD_WIDTH = 260;
+const CARD_HEIGHT = 60;
+const GAP = 20;
+
+/**
+ * Which column every file node is in: the smallest labeled group wholly containing it
+ */
+export function kanbanColumnsOf(data: CanvasData): KanbanColumns {
+	const columns: KanbanColumns = {};
+	const groups = data.nodes.filter(node => node.type === 'group' && node.label) as CanvasGroupData[];
+	data.nodes.filter(node => node.type === 'file').forEach(node => {
+		const column = groups
+			.filter(group => contains(group, node))
+			.sort((a, b) => a.width * a.height - b.width * b.height)[0];
+		if (column?.label) columns[node.id] = column.label;
+	});
+	return columns;
+}
+
+/**
+ * The file nodes now in a different column than before. Nodes dragged out of every column aren't included.
+ */
+export function columnMoves(previous: KanbanColumns, current: KanbanColumns): Array<{ nodeId: string, column: string }> {
+	return Object.keys(current)
+		.filter(nodeId => previous[nodeId] !== current[nodeId])
+		.map(nodeId => ({ nodeId: nodeId, column: current[nodeId] }));
+}
+
+/**
+ * A canvas with one column per value, holding the notes that have that value
+ * @param columns in the order they appear, left to right
+ */
+export function buildKanbanCanvas(columns: Array<{ value: string, notes: string[] }>): CanvasData {
+	const data: CanvasData = { nodes: [], edges: [] };
+	columns.forEach((column, index) => {
+		const x = index * (COLUMN_WIDTH + GAP * 2);
+		data.nodes.push({
+			id: newId(),
+			type: 'group',
+			label: column.value,
+			x: x,
+			y: 0,
+			width: COLUMN_WIDTH,
+			height: Math.max(1, column.notes.length) * (CARD_HEIGHT + GAP) + GAP
+		});
+		column.notes.forEach((path, row) => {
+			data.nodes.push({
+				id: newId(),
+				type: 'file',
+				file: path,
+				x: x + (COLUMN_WIDTH - CARD_WIDTH) / 2,
+				y: GAP + row * (CARD_HEIGHT + GAP),
+				width: CARD_WIDTH,
+				height: CARD_HEIGHT
+			});
+		});
+	});
+	return data;
+}
+
+/**
+ * Moves nodes to the bottom of the column with the given label, growing the column to fit. Mutates the canvas data.
+ * @returns whether anything moved; nodes already in the column stay where they are
+ */
+export function moveIntoColumn(data: CanvasData, nodeIds: string[], label: string): boolean {
+	const column = data.nodes.find(node => node.type === 'group' && node.label === label) as CanvasGroupData | undefined;
+	if (column === undefined) return false;
+	const currentColumns = kanbanColumnsOf(data);
+	let moved = false;
+	nodeIds.forEach(nodeId => {
+		const node = data.nodes.find(each => each.id === nodeId) as CanvasFileData | undefined;
+		if (node === undefined || currentColumns[nodeId] === label) return;
+		const bottom = data.nodes
+			.filter(other => other !== column && other !== node && contains(column, other))
+			.reduce((lowest, other) => Math.max(lowest, other.y + other.height), column.y);
+		node.x = column.x + (column.width - node.width) / 2;
+		node.y = bottom + GAP;
+		column.height = Math.max(column.height, node.y + node.height + GAP - column.y);
+		moved = true;
+	});
+	return moved;
+}
+
+function contains(group: CanvasGroupData, node: CanvasNodeData): boolean {
+	return group.x <= node.x && group.y <= node.y &&
+		group.x + group.width >= node.x + node.width &&
+		group.y + group.height >= node.y + node.height;
+}
+
+function newId(): string {
+	return (Math.random() + 1).toString(36).substring(4);
+}
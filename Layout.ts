@@ -0,0 +1,417 @@
+import { CanvasData, CanvasNodeData, NodeSide } from "canvas";
+
+export enum LayoutAlgorithm {
+	/** Evenly spaced rows and columns */
+	Grid,
+	/** Columns following edge direction, suited to parent/child style relations */
+	Layered,
+	/** Rings around the most connected node */
+	Radial,
+	/** Connected nodes pull together, everything else pushes apart */
+	ForceDirected,
+}
+
+const GAP = 80;
+const GROUP_PADDING = 40;
+
+/**
+ * A node, or a top-level group together with everything inside it, moved as one unit
+ */
+type Block = {
+	id: string;
+	members: CanvasNodeData[];
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+}
+
+/**
+ * Rewrites node positions in place. Groups are laid out as a single block together with their
+ * contents, keep their contents' relative positions, and get their bounds recomputed afterwards
+ * so containment is preserved. Edge sides are re-picked to suit the new positions.
+ */
+export function layoutCanvas(data: CanvasData, algorithm: LayoutAlgorithm) {
+	if (data.nodes.length === 0) return;
+	const contents = findGroupContents(data.nodes);
+	const blocks = makeBlocks(data.nodes, contents);
+	const blockOf = new Map<string, Block>();
+	blocks.forEach(block => block.members.forEach(member => blockOf.set(member.id, block)));
+
+	const links: Array<[Block, Block]> = [];
+	data.edges.forEach(edge => {
+		const from = blockOf.get(edge.fromNode);
+		const to = blockOf.get(edge.toNode);
+		if (from === undefined || to === undefined || from === to) return;
+		links.push([from, to]);
+	});
+
+	const positions = runAlgorithm(algorithm, blocks, links);
+
+	/* move each block's members by however far the block moved */
+	blocks.forEach(block => {
+		const target = positions.get(block.id);
+		if (target === undefined) return;
+		const dx = target.x - block.x;
+		const dy = target.y - block.y;
+		block.members.forEach(member => {
+			member.x = Math.round(Number(member.x) + dx);
+			member.y = Math.round(Number(member.y) + dy);
+		});
+	});
+
+	fitGroupsToContents(data.nodes, contents);
+	normalizeToOrigin(data.nodes);
+
+	const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+	data.edges.forEach(edge => {
+		const from = nodeById.get(edge.fromNode);
+		const to = nodeById.get(edge.toNode);
+		if (from === undefined || to === undefined) return;
+		const sides = pickSides(from, to);
+		edge.fromSide = sides.from;
+		edge.toSide = sides.to;
+	});
+}
+
+/**
+ * Moves only the given nodes so they don't overlap anything else, keeping them as close as possible
+ * to where they were put. Used for nodes pulled in next to an existing one.
+ */
+export function avoidOverlaps(data: CanvasData, newNodeIds: string[]) {
+	const placed = data.nodes.filter(node => !newNodeIds.includes(node.id) && node.type !== 'group');
+	newNodeIds.forEach(id => {
+		const node = data.nodes.find(n => n.id === id);
+		if (node === undefined) return;
+		while (placed.some(other => overlaps(node, other))) {
+			node.y = Number(node.y) + Number(node.height) + 20;
+		}
+		placed.push(node);
+	});
+}
+
+function runAlgorithm(algorithm: LayoutAlgorithm, blocks: Block[], links: Array<[Block, Block]>): Map<string, { x: number, y: number }> {
+	switch (algorithm) {
+		case LayoutAlgorithm.Grid: return gridLayout(blocks);
+		case LayoutAlgorithm.Layered: return layeredLayout(blocks, links);
+		case LayoutAlgorithm.Radial: return radialLayout(blocks, links);
+		case LayoutAlgorithm.ForceDirected: return forceLayout(blocks, links);
+	}
+}
+
+function gridLayout(blocks: Block[]): Map<string, { x: number, y: number }> {
+	const positions = new Map<string, { x: number, y: number }>();
+	const columns = Math.ceil(Math.sqrt(blocks.length));
+	const cellW = Math.max(...blocks.map(block => block.w)) + GAP;
+	const rowHeights: number[] = [];
+	blocks.forEach((block, index) => {
+		const row = Math.floor(index / columns);
+		rowHeights[row] = Math.max(rowHeights[row] ?? 0, block.h + GAP);
+	});
+	blocks.forEach((block, index) => {
+		const row = Math.floor(index / columns);
+		const y = rowHeights.slice(0, row).reduce((sum, h) => sum + h, 0);
+		positions.set(block.id, { x: (index % columns) * cellW, y: y });
+	});
+	return positions;
+}
+
+/**
+ * Longest-path layering from the sources, with edges that would close a cycle ignored,
+ * then one barycenter pass to reduce crossings.
+ */
+function layeredLayout(blocks: Block[], links: Array<[Block, Block]>): Map<string, { x: number, y: number }> {
+	const outgoing = adjacency(blocks, links, false);
+	const layer = new Map<string, number>();
+
+	/* drop back-edges found by a depth-first walk so the rest is acyclic */
+	const acyclic = new Map<string, string[]>();
+	const state = new Map<string, 'visiting' | 'done'>();
+	const walk = (id: string) => {
+		state.set(id, 'visiting');
+		const kept: string[] = [];
+		acyclic.set(id, kept);
+		(outgoing.get(id) ?? []).forEach(next => {
+			if (state.get(next) === 'visiting') return;
+			kept.push(next);
+			if (!state.has(next)) walk(next);
+		});
+		state.set(id, 'done');
+	}
+	const hasIncoming = new Set(links.map(link => link[1].id));
+	blocks.filter(block => !hasIncoming.has(block.id)).forEach(block => { if (!state.has(block.id)) walk(block.id) });
+	blocks.forEach(block => { if (!state.has(block.id)) walk(block.id) });
+
+	/* longest path, in topological order */
+	const order: string[] = [];
+	const seen = new Set<string>();
+	const visit = (id: string) => {
+		if (seen.has(id)) return;
+		seen.add(id);
+		(acyclic.get(id) ?? []).forEach(visit);
+		order.unshift(id);
+	}
+	blocks.forEach(block => visit(block.id));
+	order.forEach(id => {
+		const depth = layer.get(id) ?? 0;
+		layer.set(id, depth);
+		(acyclic.get(id) ?? []).forEach(next => layer.set(next, Math.max(layer.get(next) ?? 0, depth + 1)));
+	});
+
+	const layers: Block[][] = [];
+	blocks.forEach(block => {
+		const l = layer.get(block.id) ?? 0;
+		(layers[l] = layers[l] ?? []).push(block);
+	});
+
+	/* order each layer by the average position of its predecessors */
+	const incoming = adjacency(blocks, links, true);
+	const rank = new Map<string, number>();
+	layers.forEach(blocksInLayer => {
+		const barycenter = (block: Block) => {
+			const preds = (incoming.get(block.id) ?? []).filter(id => rank.has(id));
+			if (preds.length === 0) return Number.MAX_SAFE_INTEGER;
+			return preds.reduce((sum, id) => sum + (rank.get(id) ?? 0), 0) / preds.length;
+		}
+		blocksInLayer.sort((a, b) => barycenter(a) - barycenter(b));
+		blocksInLayer.forEach((block, index) => rank.set(block.id, index));
+	});
+
+	const positions = new Map<string, { x: number, y: number }>();
+	let x = 0;
+	const tallest = Math.max(...layers.map(blocksInLayer => columnHeight(blocksInLayer)));
+	layers.forEach(blocksInLayer => {
+		let y = (tallest - columnHeight(blocksInLayer)) / 2;
+		blocksInLayer.forEach(block => {
+			positions.set(block.id, { x: x, y: y });
+			y = y + block.h + GAP;
+		});
+		x = x + Math.max(...blocksInLayer.map(block => block.w)) + GAP * 2;
+	});
+	return positions;
+
+	function columnHeight(blocksInLayer: Block[]) {
+		return blocksInLayer.reduce((sum, block) => sum + block.h + GAP, 0);
+	}
+}
+
+/**
+ * Breadth-first rings around the most connected block. Each ring is spaced far enough out
+ * for its blocks to fit side by side.
+ */
+function radialLayout(blocks: Block[], links: Array<[Block, Block]>): Map<string, { x: number, y: number }> {
+	const neighbours = adjacency(blocks, links, false);
+	const incoming = adjacency(blocks, links, true);
+	incoming.forEach((ids, id) => neighbours.get(id)?.push(...ids));
+	const degree = (block: Block) => neighbours.get(block.id)?.length ?? 0;
+
+	const root = [...blocks].sort((a, b) => degree(b) - degree(a))[0];
+	const ring = new Map<string, number>([[root.id, 0]]);
+	/* the queue only grows, walking it by index visits blocks breadth-first */
+	const queue = [root.id];
+	for (let index = 0; index < queue.length; index++) {
+		const id = queue[index];
+		const depth = ring.get(id) ?? 0;
+		(neighbours.get(id) ?? []).forEach(next => {
+			if (ring.has(next)) return;
+			ring.set(next, depth + 1);
+			queue.push(next);
+		});
+	}
+	/* anything unconnected goes on an outer ring of its own */
+	const outermost = Math.max(...ring.values()) + 1;
+	blocks.forEach(block => { if (!ring.has(block.id)) ring.set(block.id, outermost) });
+
+	const positions = new Map<string, { x: number, y: number }>();
+	const rings: Block[][] = [];
+	blocks.forEach(block => {
+		const r = ring.get(block.id) ?? outermost;
+		(rings[r] = rings[r] ?? []).push(block);
+	});
+	let radius = 0;
+	rings.forEach((blocksInRing, r) => {
+		if (blocksInRing === undefined) return;
+		const biggest = Math.max(...blocksInRing.map(block => Math.max(block.w, block.h)));
+		if (r > 0) {
+			const circumference = blocksInRing.length * (biggest + GAP);
+			radius = Math.max(radius + biggest + GAP, circumference / (2 * Math.PI));
+		}
+		blocksInRing.forEach((block, index) => {
+			const angle = (2 * Math.PI * index) / blocksInRing.length;
+			positions.set(block.id, {
+				x: radius * Math.cos(angle) - block.w / 2,
+				y: radius * Math.sin(angle) - block.h / 2
+			});
+		});
+	});
+	return positions;
+}
+
+/**
+ * Fruchterman-Reingold starting from the current positions, followed by overlap removal
+ */
+function forceLayout(blocks: Block[], links: Array<[Block, Block]>): Map<string, { x: number, y: number }> {
+	const size = blocks.reduce((sum, block) => sum + Math.max(block.w, block.h), 0) / blocks.length;
+	const k = size + GAP;
+	/* centers, by block index; stacked nodes are nudged apart so they don't start on top of each other */
+	const pos = blocks.map((block, index) => ({ x: block.x + block.w / 2 + index, y: block.y + block.h / 2 + (index % 7) }));
+	const linked = links.map(([from, to]) => [blocks.indexOf(from), blocks.indexOf(to)]);
+
+	let temperature = k * Math.sqrt(blocks.length);
+	const iterations = 300;
+	for (let i = 0; i < iterations; i++) {
+		const disp = blocks.map(() => ({ x: 0, y: 0 }));
+		for (let a = 0; a < blocks.length; a++) {
+			for (let b = a + 1; b < blocks.length; b++) {
+				const dx = pos[a].x - pos[b].x;
+				const dy = pos[a].y - pos[b].y;
+				const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+				const force = (k * k) / dist;
+				disp[a].x += (dx / dist) * force;
+				disp[a].y += (dy / dist) * force;
+				disp[b].x -= (dx / dist) * force;
+				disp[b].y -= (dy / dist) * force;
+			}
+		}
+		linked.forEach(([from, to]) => {
+			const dx = pos[from].x - pos[to].x;
+			const dy = pos[from].y - pos[to].y;
+			const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+			const force = (dist * dist) / k;
+			disp[from].x -= (dx / dist) * force;
+			disp[from].y -= (dy / dist) * force;
+			disp[to].x += (dx / dist) * force;
+			disp[to].y += (dy / dist) * force;
+		});
+		disp.forEach((d, index) => {
+			const length = Math.max(Math.sqrt(d.x * d.x + d.y * d.y), 1);
+			pos[index].x += (d.x / length) * Math.min(length, temperature);
+			pos[index].y += (d.y / length) * Math.min(length, temperature);
+		});
+		temperature = temperature * 0.97;
+	}
+
+	const corners = blocks.map((block, index) => ({ x: pos[index].x - block.w / 2, y: pos[index].y - block.h / 2 }));
+	removeOverlaps(blocks, corners);
+	return new Map(blocks.map((block, index) => [block.id, corners[index]]));
+}
+
+/**
+ * Pushes overlapping blocks apart along whichever axis needs the smaller move
+ * @param positions the top-left corner of each block, by block index
+ */
+function removeOverlaps(blocks: Block[], positions: Array<{ x: number, y: number }>) {
+	for (let pass = 0; pass < 50; pass++) {
+		let moved = false;
+		for (let a = 0; a < blocks.length; a++) {
+			for (let b = a + 1; b < blocks.length; b++) {
+				const pa = positions[a];
+				const pb = positions[b];
+				const overlapX = Math.min(pa.x + blocks[a].w, pb.x + blocks[b].w) - Math.max(pa.x, pb.x) + GAP / 2;
+				const overlapY = Math.min(pa.y + blocks[a].h, pb.y + blocks[b].h) - Math.max(pa.y, pb.y) + GAP / 2;
+				if (overlapX <= 0 || overlapY <= 0) continue;
+				moved = true;
+				if (overlapX < overlapY) {
+					const shift = (pa.x < pb.x ? -overlapX : overlapX) / 2;
+					pa.x += shift;
+					pb.x -= shift;
+				} else {
+					const shift = (pa.y < pb.y ? -overlapY : overlapY) / 2;
+					pa.y += shift;
+					pb.y -= shift;
+				}
+			}
+		}
+		if (!moved) return;
+	}
+}
+
+function adjacency(blocks: Block[], links: Array<[Block, Block]>, reverse: boolean): Map<string, string[]> {
+	const map = new Map<string, string[]>(blocks.map(block => [block.id, []]));
+	links.forEach(([from, to]) => {
+		const list = map.get(reverse ? to.id : from.id) ?? [];
+		const other = reverse ? from.id : to.id;
+		if (!list.includes(other)) list.push(other);
+	});
+	return map;
+}
+
+/**
+ * Same rule Obsidian uses: a group contains a node when its bounds wholly contain the node's bounds
+ */
+function contains(group: CanvasNodeData, node: CanvasNodeData): boolean {
+	if (group.id === node.id) return false;
+	if (Number(group.y) > Number(node.y)) return false
+	if (Number(group.y) + Number(group.height) < Number(node.y) + Number(node.height)) return false
+	if (Number(group.x) > Number(node.x)) return false
+	if (Number(group.x) + Number(group.width) < Number(node.x) + Number(node.width)) return false
+	return true;
+}
+
+function overlaps(a: CanvasNodeData, b: CanvasNodeData): boolean {
+	return Number(a.x) < Number(b.x) + Number(b.width) && Number(b.x) < Number(a.x) + Number(a.width) &&
+		Number(a.y) < Number(b.y) + Number(b.height) && Number(b.y) < Number(a.y) + Number(a.height);
+}
+
+function findGroupContents(nodes: CanvasNodeData[]): Map<string, CanvasNodeData[]> {
+	const contents = new Map<string, CanvasNodeData[]>();
+	nodes.filter(node => node.type === 'group').forEach(group => {
+		contents.set(group.id, nodes.filter(node => contains(group, node)));
+	});
+	return contents;
+}
+
+function makeBlocks(nodes: CanvasNodeData[], contents: Map<string, CanvasNodeData[]>): Block[] {
+	const inAGroup = new Set<string>();
+	contents.forEach(members => members.forEach(member => inAGroup.add(member.id)));
+	return nodes.filter(node => !inAGroup.has(node.id)).map(node => ({
+		id: node.id,
+		members: [node, ...(contents.get(node.id) ?? [])],
+		x: Number(node.x),
+		y: Number(node.y),
+		w: Number(node.width),
+		h: Number(node.height)
+	}));
+}
+
+/**
+ * Resizes groups, innermost first, to snugly wrap what they contained before the layout
+ */
+function fitGroupsToContents(nodes: CanvasNodeData[], contents: Map<string, CanvasNodeData[]>) {
+	const groups = nodes.filter(node => node.type === 'group' && (contents.get(node.id)?.length ?? 0) > 0);
+	groups.sort((a, b) => (contents.get(a.id)?.length ?? 0) - (contents.get(b.id)?.length ?? 0));
+	groups.forEach(group => {
+		const members = contents.get(group.id) ?? [];
+		const minX = Math.min(...members.map(member => Number(member.x)));
+		const minY = Math.min(...members.map(member => Number(member.y)));
+		const maxX = Math.max(...members.map(member => Number(member.x) + Number(member.width)));
+		const maxY = Math.max(...members.map(member => Number(member.y) + Number(member.height)));
+		group.x = minX - GROUP_PADDING;
+		group.y = minY - GROUP_PADDING;
+		group.width = maxX - minX + GROUP_PADDING * 2;
+		group.height = maxY - minY + GROUP_PADDING * 2;
+	});
+}
+
+function normalizeToOrigin(nodes: CanvasNodeData[]) {
+	const minX = Math.min(...nodes.map(node => Number(node.x)));
+	const minY = Math.min(...nodes.map(node => Number(node.y)));
+	nodes.forEach(node => {
+		node.x = Number(node.x) - minX;
+		node.y = Number(node.y) - minY;
+	});
+}
+
+/**
+ * Like `determineSides`, but compares centers so differently sized nodes still connect sensibly
+ */
+function pickSides(from: CanvasNodeData, to: CanvasNodeData): { from: NodeSide, to: NodeSide } {
+	const verticalDelta = (Number(from.y) + Number(from.height) / 2) - (Number(to.y) + Number(to.height) / 2);
+	const horizontalDelta = (Number(from.x) + Number(from.width) / 2) - (Number(to.x) + Number(to.width) / 2);
+	if (Math.abs(verticalDelta) > Math.abs(horizontalDelta)) {
+		if (verticalDelta > 0) return { from: 'top', to: 'bottom' }
+		return { from: 'bottom', to: 'top' }
+	}
+	if (horizontalDelta > 0) return { from: 'left', to: 'right' }
+	return { from: 'right', to: 'left' }
+}
@@ -0,0 +1,80 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { NeighbourhoodOptions } from "main";
+
+/**
+ * Asks for the starting note, depth and keys to follow before generating a neighbourhood canvas
+ */
+export class NeighbourhoodModal extends Modal {
+	startPath: string;
+	depth = 2;
+	keys = '';
+	includeIncoming = false;
+	onSubmit: (options: NeighbourhoodOptions) => void;
+
+	constructor(app: App, start: TFile | null, onSubmit: (options: NeighbourhoodOptions) => void) {
+		super(app);
+		this.startPath = start?.path ?? '';
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Create neighbourhood canvas');
+
+		new Setting(contentEl)
+			.setName('Starting note')
+			.setDesc('Path of the note in the middle of the neighbourhood')
+			.addText(text => text
+				.setPlaceholder('Example: folder/note.md')
+				.setValue(this.startPath)
+				.onChange(value => this.startPath = value.trim()));
+
+		new Setting(contentEl)
+			.setName('Depth')
+			.setDesc('How many hops away from the starting note to follow relations')
+			.addSlider(slider => slider
+				.setLimits(1, 5, 1)
+				.setValue(this.depth)
+				.setDynamicTooltip()
+				.onChange(value => this.depth = value));
+
+		new Setting(contentEl)
+			.setName('Keys to follow')
+			.setDesc('A comma-separated list of property keys (case-insensitive). Leave blank to follow all list properties.')
+			.addText(text => text
+				.setPlaceholder('Example: parent, related')
+				.setValue(this.keys)
+				.onChange(value => this.keys = value));
+
+		new Setting(contentEl)
+			.setName('Follow incoming relations')
+			.setDesc('Also include notes that reference these notes in their properties')
+			.addToggle(toggle => toggle
+				.setValue(this.includeIncoming)
+				.onChange(value => this.includeIncoming = value));
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Create canvas')
+				.setCta()
+				.onClick(() => {
+					const start = this.app.vault.getFileByPath(this.startPath);
+					if (start === null || start.extension !== 'md') {
+						new Notice(`No note found at ${this.startPath}`);
+						return;
+					}
+					this.close();
+					this.onSubmit({
+						start: start,
+						depth: this.depth,
+						keys: this.keys.split(',').map(key => key.trim()).filter(key => key !== ''),
+						includeIncoming: this.includeIncoming
+					});
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
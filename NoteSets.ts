@@ -0,0 +1,136 @@
+import { App, getAllTags, TFile, TFolder, Vault } from "obsidian";
+
+/**
+ * A search saved with the core Bookmarks plugin
+ */
+export type SavedSearch = {
+	title: string;
+	query: string;
+}
+
+/**
+ * Every Markdown note in the folder, including subfolders
+ */
+export function notesInFolder(folder: TFolder): TFile[] {
+	const notes: TFile[] = [];
+	Vault.recurseChildren(folder, file => {
+		if (file instanceof TFile && file.extension === 'md') notes.push(file);
+	});
+	return notes;
+}
+
+/**
+ * Every tag used in the vault, with the leading `#`, sorted
+ */
+export function allTags(app: App): string[] {
+	const tags = new Set<string>();
+	app.vault.getMarkdownFiles().forEach(file => {
+		const cache = app.metadataCache.getFileCache(file);
+		if (cache) getAllTags(cache)?.forEach(tag => tags.add(tag));
+	});
+	return [...tags].sort();
+}
+
+/**
+ * Every note tagged with the tag or one of its nested tags (`#a` also matches `#a/b`)
+ */
+export function notesWithTag(app: App, tag: string): TFile[] {
+	const wanted = tag.toLowerCase();
+	return app.vault.getMarkdownFiles().filter(file => {
+		const cache = app.metadataCache.getFileCache(file);
+		const tags = cache ? getAllTags(cache) ?? [] : [];
+		return tags.some(t => t.toLowerCase() === wanted || t.toLowerCase().startsWith(wanted + '/'));
+	});
+}
+
+/**
+ * A bookmark as the core Bookmarks plugin keeps it, groups holding more bookmarks
+ */
+type Bookmark = { type: string, title?: string, query?: string, items?: Bookmark[] };
+
+/**
+ * The searches bookmarked with the core Bookmarks plugin, including those inside bookmark groups
+ */
+export function savedSearches(app: App): SavedSearch[] {
+	//@ts-expect-error - internalPlugins isn't part of the public API
+	const bookmarks = app.internalPlugins?.getPluginById?.('bookmarks')?.instance?.items ?? [];
+	const searches: SavedSearch[] = [];
+	collect(bookmarks);
+	return searches;
+
+	function collect(items: Bookmark[]) {
+		items.forEach(item => {
+			if (item.type === 'search' && item.query !== undefined) searches.push({ title: item.title || item.query, query: item.query });
+			if (item.type === 'group') collect(item.items ?? []);
+		});
+	}
+}
+
+/** Obsidian search operators `notesMatchingSearch` doesn't understand */
+const UNSUPPORTED_OPERATORS = ['content', 'line', 'block', 'section', 'task', 'task-todo', 'task-done', 'match-case', 'ignore-case'];
+
+/**
+ * Finds the notes matching a search query. Supports the common subset of Obsidian's search syntax:
+ * `path:`, `file:`, `tag:` and plain words or "quoted phrases", all of which must match.
+ * A leading `-` negates a term. Queries using `OR`, parentheses, regexes, `[property]` searches or
+ * other operators are rejected with an error rather than matched as plain words.
+ */
+export async function notesMatchingSearch(app: App, query: string): Promise<TFile[]> {
+	const terms = (query.match(/-?(?:[\w-]+:)?(?:"[^"]*"|\S+)/g) ?? []).map(raw => {
+		const negated = raw.startsWith('-');
+		const body = negated ? raw.substring(1) : raw;
+		const unsupported = unsupportedSyntax(body);
+		if (unsupported !== undefined) throw new Error(`Search syntax not supported: ${unsupported} in "${query}"`);
+		const operator = body.match(/^(path|file|tag):/);
+		const text = (operator ? body.substring(operator[0].length) : body).replace(/^"|"$/g, '').toLowerCase();
+		return { negated: negated, operator: operator ? operator[1] : 'content', text: text };
+	}).filter(term => term.text !== '');
+
+	const matches: TFile[] = [];
+	for (const file of app.vault.getMarkdownFiles()) {
+		let content: string | undefined;
+		let allMatch = true;
+		for (const term of terms) {
+			let isMatch: boolean;
+			switch (term.operator) {
+				case 'path':
+					isMatch = file.path.toLowerCase().includes(term.text);
+					break;
+				case 'file':
+					isMatch = file.name.toLowerCase().includes(term.text);
+					break;
+				case 'tag': {
+					const cache = app.metadataCache.getFileCache(file);
+					const tags = cache ? getAllTags(cache) ?? [] : [];
+					const wanted = term.text.startsWith('#') ? term.text : '#' + term.text;
+					isMatch = tags.some(t => t.toLowerCase() === wanted || t.toLowerCase().startsWith(wanted + '/'));
+					break;
+				}
+				default:
+					if (content === undefined) content = (await app.vault.cachedRead(file)).toLowerCase();
+					isMatch = content.includes(term.text) || file.basename.toLowerCase().includes(term.text);
+			}
+			if (isMatch === term.negated) {
+				allMatch = false;
+				break;
+			}
+		}
+		if (allMatch) matches.push(file);
+	}
+	return matches;
+}
+
+/**
+ * What a search term uses that `notesMatchingSearch` can't match, if anything. Quoted phrases are plain text.
+ */
+function unsupportedSyntax(term: string): string | undefined {
+	if (term.startsWith('"')) return undefined;
+	if (term === 'OR') return 'OR';
+	if (term.startsWith('(') || term.endsWith(')')) return 'parentheses';
+	if (term.startsWith('[')) return '[property] searches';
+	const operator = term.match(/^([\w-]+):/);
+	if (operator !== null && UNSUPPORTED_OPERATORS.includes(operator[1])) return `${operator[1]}:`;
+	const text = operator !== null ? term.substring(operator[0].length) : term;
+	if (text.length > 1 && text.startsWith('/') && text.endsWith('/')) return 'regular expressions';
+	return undefined;
+}
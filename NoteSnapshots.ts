@@ -0,0 +1,39 @@
+import { isScalar } from "PropertyTypes";
+
+/**
+ * What live sync remembers about a note's properties, each value as its text
+ */
+export type NoteSnapshot = { [key: string]: string[] };
+
+/**
+ * Records the properties of a note that can change a canvas: every list, and single values only
+ * for keys that are relations somewhere (a typed edge label, a kanban column key or an axis key).
+ * Editing any other single value, like a status or a date, leaves the canvases alone.
+ */
+export function snapshotFrontmatter(frontmatter: { [key: string]: unknown } | undefined, isExcludedKey: (key: string) => boolean, isRelationKey: (key: string) => boolean): NoteSnapshot {
+	const snapshot: NoteSnapshot = {};
+	Object.keys(frontmatter ?? {}).forEach(key => {
+		if (isExcludedKey(key)) return;
+		const val = frontmatter?.[key];
+		if (Array.isArray(val)) snapshot[key] = val.filter(item => item !== null && item !== undefined).map(item => String(item));
+		else if (isScalar(val) && val !== '' && isRelationKey(key)) snapshot[key] = [String(val)];
+	});
+	return snapshot;
+}
+
+/**
+ * The values each key gained & lost between two snapshots of a note. Keys that didn't change are left out.
+ */
+export function diffNoteSnapshots(previous: NoteSnapshot, current: NoteSnapshot): { added: NoteSnapshot, removed: NoteSnapshot } {
+	const added: NoteSnapshot = {};
+	const removed: NoteSnapshot = {};
+	new Set([...Object.keys(previous), ...Object.keys(current)]).forEach(key => {
+		const before = previous[key] ?? [];
+		const after = current[key] ?? [];
+		const newVals = after.filter(val => !before.includes(val));
+		const goneVals = before.filter(val => !after.includes(val));
+		if (newVals.length > 0) added[key] = newVals;
+		if (goneVals.length > 0) removed[key] = goneVals;
+	});
+	return { added, removed };
+}
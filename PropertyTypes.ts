@@ -0,0 +1,109 @@
+import { App, moment } from "obsidian";
+
+/**
+ * The single-valued property types that can be written from a canvas. Anything else is a list.
+ */
+export type ScalarType = 'text' | 'number' | 'date' | 'datetime' | 'checkbox';
+
+const SCALAR_TYPES: ScalarType[] = ['text', 'number', 'date', 'datetime', 'checkbox'];
+
+const DATE_FORMATS = ['YYYY-MM-DD', 'YYYY/MM/DD', 'D MMM YYYY', 'D MMMM YYYY', 'MMM D, YYYY', 'MMMM D, YYYY'];
+const DATETIME_FORMATS = ['YYYY-MM-DDTHH:mm', 'YYYY-MM-DDTHH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY-MM-DD HH:mm:ss', ...DATE_FORMATS];
+const TRUE_WORDS = ['true', 'yes', 'y', 'x', '[x]', '✓', '✔', '1', 'done', 'checked'];
+const FALSE_WORDS = ['false', 'no', 'n', '[ ]', '0', 'unchecked'];
+
+/**
+ * Splits an edge label like `due:date` into the property key and its declared type.
+ * Labels whose suffix isn't a known type (e.g. `source:web`) are left whole.
+ */
+export function splitTypedLabel(label: string): { key: string, type?: ScalarType } {
+	const colon = label.lastIndexOf(':');
+	if (colon <= 0) return { key: label };
+	const suffix = label.substring(colon + 1).trim().toLowerCase();
+	if (!SCALAR_TYPES.includes(suffix as ScalarType)) return { key: label };
+	return { key: label.substring(0, colon).trim(), type: suffix as ScalarType };
+}
+
+/**
+ * The scalar type assigned to a key in Obsidian's property type registry, if any.
+ * List types (`multitext`, `tags`, `aliases`) and unknown keys give `undefined`.
+ */
+export function registeredType(app: App, key: string): ScalarType | undefined {
+	//@ts-expect-error - metadataTypeManager isn't part of the public API
+	return asScalarType(app.metadataTypeManager?.getAssignedType?.(key));
+}
+
+/**
+ * A property type as written in the registry, if it's a single-valued one
+ */
+export function asScalarType(assigned: unknown): ScalarType | undefined {
+	if (typeof assigned !== 'string') return undefined;
+	return SCALAR_TYPES.includes(assigned as ScalarType) ? assigned as ScalarType : undefined;
+}
+
+/**
+ * The type of a key written from an edge label: declared in the label first, then from the registry
+ * @returns `undefined` for list properties
+ */
+export function resolvePropertyType(app: App, label: string): { key: string, type?: ScalarType } {
+	const typed = splitTypedLabel(label);
+	return { key: typed.key, type: typed.type ?? registeredType(app, typed.key) };
+}
+
+/**
+ * Parses card text (or a link) into a frontmatter value of the given type
+ * @returns `undefined` when the text can't be read as that type
+ */
+export function parseScalar(text: string, type: ScalarType): string | number | boolean | undefined {
+	const trimmed = text.trim();
+	switch (type) {
+		case 'text':
+			return text;
+		case 'number': {
+			if (trimmed === '') return undefined;
+			const num = Number(trimmed);
+			return isFinite(num) ? num : undefined;
+		}
+		case 'checkbox': {
+			const lower = trimmed.toLowerCase();
+			if (TRUE_WORDS.includes(lower)) return true;
+			if (FALSE_WORDS.includes(lower)) return false;
+			return undefined;
+		}
+		case 'date': {
+			const date = moment(trimmed, DATE_FORMATS, true);
+			return date.isValid() ? date.format('YYYY-MM-DD') : undefined;
+		}
+		case 'datetime': {
+			const date = moment(trimmed, DATETIME_FORMATS, true);
+			return date.isValid() ? date.format('YYYY-MM-DDTHH:mm') : undefined;
+		}
+	}
+}
+
+/**
+ * Whether a frontmatter value is a single value rather than a list or object
+ */
+export function isScalar(val: unknown): val is string | number | boolean {
+	return typeof val === 'string' || typeof val === 'number' || typeof val === 'boolean';
+}
+
+/**
+ * Guesses the type of a scalar frontmatter value, for labelling edges pulled onto a canvas
+ */
+export function inferScalarType(val: string | number | boolean): ScalarType {
+	if (typeof val === 'number') return 'number';
+	if (typeof val === 'boolean') return 'checkbox';
+	if (moment(val, ['YYYY-MM-DD'], true).isValid()) return 'date';
+	if (moment(val, ['YYYY-MM-DDTHH:mm', 'YYYY-MM-DDTHH:mm:ss'], true).isValid()) return 'datetime';
+	return 'text';
+}
+
+/**
+ * The edge label for a property pulled onto a canvas. Scalars get a type suffix unless the
+ * registry already knows the key's type, so pushing the edge back writes the same kind of value.
+ */
+export function labelForProperty(app: App, key: string, val: unknown): string {
+	if (!isScalar(val) || registeredType(app, key) !== undefined) return key;
+	return `${key}:${inferScalarType(val)}`;
+}
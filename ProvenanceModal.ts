@@ -0,0 +1,52 @@
+import { App, Modal, Setting, TFile } from "obsidian";
+import { ProvenanceEntry } from "main";
+
+/**
+ * Lists the canvases that contributed each property value of a note, with a button
+ * to jump to the edge that produced it.
+ */
+export class ProvenanceModal extends Modal {
+	file: TFile;
+	entries: ProvenanceEntry[];
+	onReveal: (canvasPath: string, id: string) => void;
+
+	constructor(app: App, file: TFile, entries: ProvenanceEntry[], onReveal: (canvasPath: string, id: string) => void) {
+		super(app);
+		this.file = file;
+		this.entries = entries;
+		this.onReveal = onReveal;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(`Where did the values of ${this.file.basename} come from?`);
+
+		if (this.entries.length === 0) {
+			contentEl.createEl('p', { text: 'No canvas has written properties to this note.' });
+			return;
+		}
+
+		const keys = [...new Set(this.entries.map(entry => entry.key))];
+		keys.forEach(key => {
+			contentEl.createEl('h4', { text: key });
+			this.entries.filter(entry => entry.key === key).forEach(entry => {
+				const setting = new Setting(contentEl)
+					.setName(entry.value + (entry.stillInNote ? '' : ' (no longer in note)'))
+					.setDesc(entry.canvasPath);
+				entry.elementIds.forEach((id, index) => {
+					setting.addButton(btn => btn
+						.setButtonText(entry.elementIds.length > 1 ? `Show edge ${index + 1}` : 'Show edge')
+						.onClick(() => {
+							this.close();
+							this.onReveal(entry.canvasPath, id);
+						}));
+				});
+			});
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
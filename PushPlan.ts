@@ -0,0 +1,363 @@
+import { App, TFile } from "obsidian";
+import { inferScalarType, isScalar, parseScalar, ScalarType } from "PropertyTypes";
+
+/**
+ * How canvas values are combined with what's already in a note
+ */
+export enum PushMode {
+	/** Add canvas values onto existing ones, never removing anything */
+	Append,
+	/** Replace keys found on the canvas */
+	Overwrite,
+	/** Replace keys found on the canvas, and remove values this canvas wrote before but no longer has an edge for */
+	Mirror,
+}
+
+/**
+ * The verb used for a push mode in titles and notices
+ */
+export function describePushMode(mode: PushMode): string {
+	switch (mode) {
+		case PushMode.Append: return 'Append';
+		case PushMode.Overwrite: return 'Overwrite';
+		case PushMode.Mirror: return 'Mirror';
+	}
+}
+
+/**
+ * What will happen to a single value of a property when a push is applied
+ */
+export type ValueStatus = 'added' | 'kept' | 'dropped';
+
+/**
+ * The ids of the canvas edges (or containing groups) that produced each value
+ */
+export type ValueSources = { [value: string]: string[] };
+
+/**
+ * A note's frontmatter, with values as they were parsed from YAML
+ */
+export type Frontmatter = { [key: string]: unknown };
+
+/**
+ * The values a canvas has written, per note path and key, along with where each came from
+ */
+export type WrittenProps = { [notePath: string]: { [key: string]: ValueSources } };
+
+/**
+ * The proposed change to one property key in one note
+ */
+export type KeyChange = {
+	key: string;
+	/** The value currently in the note's frontmatter, `undefined` when the key doesn't exist yet */
+	current: unknown;
+	/** The values the canvas wants to write for this key, normalized to the key's type if it has one */
+	fromCanvas: string[];
+	/** Set for single-valued keys, whose values are parsed & written as one scalar */
+	type?: ScalarType;
+	/** Canvas values that couldn't be read as the key's type, and are skipped */
+	unparsable: string[];
+	/** Where on the canvas each value came from */
+	sources: ValueSources;
+	/** The values this canvas wrote into this key last time, used by mirror mode */
+	previouslyWritten: string[];
+	/** Values other canvases wrote into this key, which this push leaves alone */
+	protectedValues: string[];
+	/** What the key will hold once the push is applied, `undefined` if the key will be removed */
+	proposed: unknown;
+	values: Array<{ value: unknown, status: ValueStatus }>;
+	action: 'created' | 'appended' | 'replaced' | 'removed';
+	include: boolean;
+}
+
+/**
+ * All the proposed changes for one note
+ */
+export type FileChange = {
+	file: TFile;
+	keys: KeyChange[];
+	include: boolean;
+}
+
+/**
+ * Works out what a key will hold after pushing the canvas values into it.
+ * Shared between the preview and the actual write so they can't disagree.
+ * @param frontmatter the note's current frontmatter
+ * @param key the property key being written
+ * @param canvasVals the values found on the canvas
+ * @param mode how to combine canvas values with existing ones
+ * @param previouslyWritten values this canvas wrote into the key before, only used when mirroring
+ * @param protectedValues values another canvas wrote into the key, never replaced or removed
+ * @param type for single-valued keys, the type canvas values are parsed as
+ * @returns the new value, or `undefined` if mirroring left the key empty
+ */
+export function proposeValue(frontmatter: Frontmatter | undefined, key: string, canvasVals: unknown[], mode: PushMode, previouslyWritten: unknown[] = [], protectedValues: unknown[] = [], type?: ScalarType): unknown {
+	if (type !== undefined) return proposeScalar(frontmatter, key, canvasVals, mode, previouslyWritten, protectedValues, type);
+	const exists = frontmatter !== undefined && frontmatter.hasOwnProperty(key);
+	if (mode === PushMode.Mirror && canvasVals.length === 0) {
+		/* the canvas lost every edge for this key, only take away what it put there */
+		if (!exists) return undefined;
+		const existing = asList(frontmatter[key]);
+		const remaining = existing.filter(og => !previouslyWritten.some(prev => prev === og) || protectedValues.some(prot => prot === og));
+		return remaining.length > 0 ? remaining : undefined;
+	}
+	if (!exists) return [...canvasVals];
+	if (mode !== PushMode.Append) {
+		/* replacing, except for what other canvases contributed */
+		const existing = asList(frontmatter[key]);
+		const kept = existing.filter(og => protectedValues.some(prot => prot === og) && !canvasVals.some(val => val === og));
+		return [...kept, ...canvasVals];
+	}
+	//force array
+	const existing = asList(frontmatter[key]);
+	/* Don't add duplicate values to existing props */
+	const toAdd = canvasVals.filter(val => !existing.some(og => og === val));
+	return [...existing, ...toAdd];
+}
+
+/**
+ * Like `proposeValue`, for a key holding a single value. The first canvas value that parses wins.
+ * Appending never replaces an existing value; overwriting & mirroring replace it unless another canvas owns it.
+ */
+function proposeScalar(frontmatter: Frontmatter | undefined, key: string, canvasVals: unknown[], mode: PushMode, previouslyWritten: unknown[], protectedValues: unknown[], type: ScalarType): unknown {
+	const exists = frontmatter !== undefined && frontmatter.hasOwnProperty(key);
+	const current = exists ? frontmatter[key] : undefined;
+	const isEmpty = current === undefined || current === null || current === '';
+	const parsed = canvasVals.map(val => parseScalar(String(val), type)).filter(val => val !== undefined);
+	const ownedElsewhere = !isEmpty && protectedValues.some(prot => prot === String(current));
+	if (parsed.length === 0) {
+		if (mode !== PushMode.Mirror) return exists ? current : undefined;
+		/* the canvas lost its edge for this key, only take the value away if it put it there */
+		if (exists && previouslyWritten.some(prev => prev === String(current)) && !ownedElsewhere) return undefined;
+		return exists ? current : undefined;
+	}
+	if (isEmpty) return parsed[0];
+	if (mode === PushMode.Append || ownedElsewhere) return current;
+	return parsed[0];
+}
+
+/**
+ * What a canvas wants to set in one note
+ */
+export type NotePropsToSet = {
+	props: null | { [key: string]: string[] };
+	sources?: { [key: string]: ValueSources };
+	types?: { [key: string]: ScalarType };
+}
+
+/**
+ * Builds the per-file, per-key change list for a push without writing anything.
+ * Current values are read from the metadata cache.
+ * @param propsByFile the props the canvas wants to set, per note
+ * @param mode how to combine canvas values with existing ones
+ * @param previouslyWritten what this canvas wrote last time; in mirror mode keys missing from the canvas are cleaned up
+ * @param protectedValues looks up the values other canvases wrote into a note's key
+ */
+export function planFileChanges(app: App, propsByFile: Array<NotePropsToSet & { file: TFile }>, mode: PushMode, previouslyWritten: WrittenProps = {}, protectedValues: (notePath: string, key: string) => string[] = () => []): FileChange[] {
+	return propsByFile.map(fileMap => {
+		const frontmatter = app.metadataCache.getFileCache(fileMap.file)?.frontmatter;
+		return {
+			file: fileMap.file,
+			keys: planNoteChanges(fileMap.file.path, frontmatter, fileMap, mode, previouslyWritten, protectedValues),
+			include: true
+		}
+	}).filter(change => change.keys.length > 0);
+}
+
+/**
+ * The per-key change list for one note, from its frontmatter as a plain object
+ * @param frontmatter the note's current frontmatter, `undefined` when it has none
+ * @see planFileChanges
+ */
+export function planNoteChanges(notePath: string, frontmatter: Frontmatter | undefined, fileMap: NotePropsToSet, mode: PushMode, previouslyWritten: WrittenProps = {}, protectedValues: (notePath: string, key: string) => string[] = () => []): KeyChange[] {
+	if (fileMap.props === null) throw new Error('Cannot plan changes - fileMap.props was null');
+	const props = fileMap.props;
+	const previous = previouslyWritten[notePath] ?? {};
+	const keysToPlan = Object.keys(props);
+	if (mode === PushMode.Mirror) {
+		Object.keys(previous).forEach(key => {
+			if (!keysToPlan.includes(key)) keysToPlan.push(key);
+		});
+	}
+	return keysToPlan.map(key => {
+		const exists = frontmatter !== undefined && frontmatter.hasOwnProperty(key);
+		const current = exists ? frontmatter?.[key] : undefined;
+		/* keys only being cleaned up by mirroring keep whatever kind of value they hold */
+		const type = fileMap.types?.[key] ?? (!props.hasOwnProperty(key) && isScalar(current) ? inferScalarType(current) : undefined);
+		const typed = normalizeToType(props[key] ?? [], fileMap.sources?.[key] ?? {}, type);
+		const previousVals = Object.keys(previous[key] ?? {});
+		const protectedVals = protectedValues(notePath, key);
+		const proposed = proposeValue(frontmatter, key, typed.values, mode, previousVals, protectedVals, type);
+		return {
+			key: key,
+			current: current,
+			fromCanvas: typed.values,
+			type: type,
+			unparsable: typed.unparsable,
+			sources: typed.sources,
+			previouslyWritten: previousVals,
+			protectedValues: protectedVals,
+			proposed: proposed,
+			values: diffValues(exists ? current : [], proposed === undefined ? [] : asList(proposed)),
+			action: proposed === undefined ? 'removed' : !exists ? 'created' : mode === PushMode.Append ? 'appended' : 'replaced',
+			include: true
+		} as KeyChange;
+	}).filter(keyChange => keyChange.current !== undefined || keyChange.proposed !== undefined);
+}
+
+/**
+ * Whether applying a key change would alter the note, as opposed to rewriting the values it already has
+ */
+export function hasEffect(keyChange: KeyChange): boolean {
+	if (keyChange.current === undefined || keyChange.proposed === undefined) return keyChange.current !== keyChange.proposed;
+	if (Array.isArray(keyChange.current) !== Array.isArray(keyChange.proposed)) return true;
+	return keyChange.values.some(val => val.status !== 'kept');
+}
+
+/**
+ * Writes the included keys of the included files into their frontmatter.
+ * Values are re-derived from the live frontmatter at write time.
+ * @param beforeWrite called with the live frontmatter right before each key is written
+ * @returns how many props were set across how many files
+ */
+export async function applyFileChanges(app: App, changes: FileChange[], mode: PushMode, beforeWrite?: (file: TFile, frontmatter: Frontmatter, key: string) => void): Promise<{ props: number, files: number }> {
+	let propCount = 0;
+	let fileCount = 0;
+	for (const change of changes) {
+		if (!change.include) continue;
+		const keys = change.keys.filter(keyChange => keyChange.include);
+		if (keys.length === 0) continue;
+		await app.fileManager.processFrontMatter(change.file, (frontmatter) => {
+			keys.forEach(keyChange => {
+				if (beforeWrite) beforeWrite(change.file, frontmatter, keyChange.key);
+				writeKeyChange(frontmatter, keyChange, mode);
+			});
+		});
+		propCount = propCount + keys.length;
+		fileCount = fileCount + 1;
+	}
+	return { props: propCount, files: fileCount };
+}
+
+/**
+ * The notes a push will write to: included ones with at least one included key.
+ * Backlinks are only added to these, so a note with every key unticked is left untouched.
+ */
+export function writtenPaths(changes: FileChange[]): string[] {
+	return changes.filter(change => change.include && change.keys.some(keyChange => keyChange.include)).map(change => change.file.path);
+}
+
+/**
+ * Writes one key change into frontmatter, re-deriving the value from what the frontmatter holds now
+ */
+export function writeKeyChange(frontmatter: Frontmatter, keyChange: KeyChange, mode: PushMode) {
+	const value = proposeValue(frontmatter, keyChange.key, keyChange.fromCanvas, mode, keyChange.previouslyWritten, keyChange.protectedValues, keyChange.type);
+	if (value === undefined) {
+		delete frontmatter[keyChange.key];
+	} else {
+		frontmatter[keyChange.key] = value;
+	}
+}
+
+/**
+ * Updates the record of what a canvas has written with the changes that were just applied.
+ * Appending remembers old and new values; overwriting and mirroring only remember the new ones.
+ * @param written the record for one canvas, mutated in place
+ */
+export function recordWrittenProps(written: WrittenProps, changes: Array<{ file: { path: string }, keys: KeyChange[], include: boolean }>, mode: PushMode) {
+	changes.forEach(change => {
+		if (!change.include) return;
+		const forNote = written[change.file.path] ?? {};
+		change.keys.forEach(keyChange => {
+			if (!keyChange.include) return;
+			if (keyChange.fromCanvas.length === 0) {
+				delete forNote[keyChange.key];
+				return;
+			}
+			/* a single value is only this canvas's if it's the one that got written */
+			const writtenVals = keyChange.type === undefined ? keyChange.fromCanvas : keyChange.fromCanvas.filter(val => val === String(keyChange.proposed));
+			const recorded: ValueSources = mode === PushMode.Append && keyChange.type === undefined ? forNote[keyChange.key] ?? {} : {};
+			writtenVals.forEach(val => {
+				const ids = new Set([...(recorded[val] ?? []), ...(keyChange.sources[val] ?? [])]);
+				recorded[val] = [...ids];
+			});
+			if (Object.keys(recorded).length > 0) {
+				forNote[keyChange.key] = recorded;
+			} else {
+				delete forNote[keyChange.key];
+			}
+		});
+		if (Object.keys(forNote).length > 0) {
+			written[change.file.path] = forNote;
+		} else {
+			delete written[change.file.path];
+		}
+	});
+}
+
+/**
+ * What a canvas wrote before, without the excluded keys, for mirroring to clean up after
+ */
+export function writtenForMirror(written: WrittenProps, isExcludedKey: (key: string) => boolean): WrittenProps {
+	const previouslyWritten: WrittenProps = {};
+	Object.keys(written).forEach(notePath => {
+		const keys = Object.keys(written[notePath]).filter(key => !isExcludedKey(key));
+		if (keys.length === 0) return;
+		previouslyWritten[notePath] = {};
+		keys.forEach(key => previouslyWritten[notePath][key] = written[notePath][key]);
+	});
+	return previouslyWritten;
+}
+
+/**
+ * The values every other canvas wrote into a note's key, which a push from this canvas leaves alone
+ * @param writtenProps what each canvas has written, by canvas path
+ */
+export function valuesWrittenElsewhere(writtenProps: { [canvasPath: string]: WrittenProps }, canvasPath: string, notePath: string, key: string): string[] {
+	const values = new Set<string>();
+	Object.keys(writtenProps).forEach(otherCanvas => {
+		if (otherCanvas === canvasPath) return;
+		Object.keys(writtenProps[otherCanvas][notePath]?.[key] ?? {}).forEach(val => values.add(val));
+	});
+	return [...values];
+}
+
+/**
+ * Parses canvas values of a typed key and re-keys their sources by the parsed value,
+ * so what gets recorded as written matches what ends up in the note
+ */
+function normalizeToType(values: string[], sources: ValueSources, type?: ScalarType): { values: string[], sources: ValueSources, unparsable: string[] } {
+	if (type === undefined) return { values: values, sources: sources, unparsable: [] };
+	const normalized: string[] = [];
+	const normalizedSources: ValueSources = {};
+	const unparsable: string[] = [];
+	values.forEach(val => {
+		const parsed = parseScalar(val, type);
+		if (parsed === undefined) {
+			unparsable.push(val);
+			return;
+		}
+		const asString = String(parsed);
+		if (!normalized.includes(asString)) normalized.push(asString);
+		normalizedSources[asString] = [...new Set([...(normalizedSources[asString] ?? []), ...(sources[val] ?? [])])];
+	});
+	return { values: normalized, sources: normalizedSources, unparsable: unparsable };
+}
+
+function diffValues(current: unknown, proposed: unknown[]): Array<{ value: unknown, status: ValueStatus }> {
+	const currentArr = asList(current);
+	const result: Array<{ value: unknown, status: ValueStatus }> = [];
+	proposed.forEach(val => {
+		if (result.some(r => r.value === val)) return;
+		result.push({ value: val, status: currentArr.some(og => og === val) ? 'kept' : 'added' });
+	});
+	currentArr.forEach(val => {
+		if (proposed.some(p => p === val)) return;
+		result.push({ value: val, status: 'dropped' });
+	});
+	return result;
+}
+
+function asList(val: unknown): unknown[] {
+	return Array.isArray(val) ? val : [val];
+}
@@ -0,0 +1,94 @@
+import { App, Modal, Setting } from "obsidian";
+import { describePushMode, FileChange, PushMode } from "PushPlan";
+
+/**
+ * Shows what a push from canvas to notes is about to do, and lets the user
+ * untick files or keys before anything is written.
+ */
+export class PushPreviewModal extends Modal {
+	changes: FileChange[];
+	mode: PushMode;
+	onConfirm: (changes: FileChange[]) => void;
+
+	constructor(app: App, changes: FileChange[], mode: PushMode, onConfirm: (changes: FileChange[]) => void) {
+		super(app);
+		this.changes = changes;
+		this.mode = mode;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('semantic-canvas-preview');
+		this.titleEl.setText(`Preview: ${describePushMode(this.mode).toLowerCase()} note properties`);
+
+		if (this.changes.length === 0) {
+			contentEl.createEl('p', { text: 'No notes connections found on canvas.' });
+		}
+
+		this.changes.forEach(change => {
+			const fileEl = contentEl.createDiv({ cls: 'semantic-canvas-preview-file' });
+			new Setting(fileEl)
+				.setName(change.file.path)
+				.setHeading()
+				.addToggle(toggle => toggle
+					.setValue(change.include)
+					.onChange(value => {
+						change.include = value;
+						tableEl.toggleClass('is-disabled', !value);
+					}));
+
+			const tableEl = fileEl.createEl('table', { cls: 'semantic-canvas-preview-table' });
+			const headerRow = tableEl.createEl('tr');
+			['', 'Key', 'Current', 'Proposed'].forEach(text => headerRow.createEl('th', { text: text }));
+
+			change.keys.forEach(keyChange => {
+				const row = tableEl.createEl('tr');
+				const checkbox = row.createEl('td').createEl('input', { type: 'checkbox' });
+				checkbox.checked = keyChange.include;
+				checkbox.addEventListener('change', () => {
+					keyChange.include = checkbox.checked;
+					row.toggleClass('is-disabled', !checkbox.checked);
+				});
+				row.createEl('td', { text: `${keyChange.key}${keyChange.type !== undefined ? ': ' + keyChange.type : ''} (${keyChange.action})` });
+				row.createEl('td', { text: displayValue(keyChange.current) });
+				const proposedCell = row.createEl('td');
+				keyChange.values.forEach(val => {
+					proposedCell.createDiv({
+						text: `${val.status === 'added' ? '+' : val.status === 'dropped' ? '−' : '='} ${displayValue(val.value)}`,
+						cls: 'semantic-canvas-value-' + val.status
+					});
+				});
+				keyChange.unparsable.forEach(val => {
+					proposedCell.createDiv({
+						text: `✕ ${val} (not a ${keyChange.type})`,
+						cls: 'semantic-canvas-value-dropped'
+					});
+				});
+			});
+		});
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(btn => btn
+				.setButtonText('Apply')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onConfirm(this.changes);
+				}));
+
+		function displayValue(val: unknown): string {
+			if (val === undefined) return '(none)';
+			if (Array.isArray(val)) return val.map(v => displayValue(v)).join(', ');
+			return String(val);
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
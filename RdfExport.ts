@@ -0,0 +1,224 @@
+import { isFile, isURL } from "Core";
+import { ScalarType } from "PropertyTypes";
+
+const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * How property keys become predicates, from the RDF vocabulary setting
+ */
+export type RdfMappings = {
+	/** Prefix → the IRI it stands for, e.g. `schema` → `https://schema.org/` */
+	prefixes: Map<string, string>;
+	/** Property key → predicate, as a prefixed name or an IRI */
+	predicates: Map<string, string>;
+}
+
+/**
+ * One value of one note's property, the unit a semantic graph is exported from
+ */
+export type PropertyStatement = {
+	notePath: string;
+	key: string;
+	value: string | number | boolean;
+	/** Set for single-valued keys, whose values become typed literals */
+	type?: ScalarType;
+}
+
+export type RdfTerm = { iri: string } | { literal: string, datatype?: string };
+
+export type Triple = {
+	subject: string;
+	predicate: string;
+	object: RdfTerm;
+}
+
+/** A value in JSON-LD: a plain literal, a typed literal or a reference to another node */
+type JsonLdValue = string | { '@id': string } | { '@value': string, '@type': string };
+
+/** One subject of a JSON-LD `@graph`, each predicate holding one value or a list of them */
+type JsonLdNode = { [predicate: string]: JsonLdValue | JsonLdValue[] };
+
+/**
+ * Parses the RDF vocabulary setting
+ * @param setting one per line: `schema: https://schema.org/` declares a prefix,
+ * `related = schema:isRelatedTo` maps a property key to a predicate
+ */
+export function parseRdfMappings(setting: string): RdfMappings {
+	const mappings: RdfMappings = { prefixes: new Map(), predicates: new Map() };
+	setting.split('\n').forEach(line => {
+		const trimmed = line.trim();
+		const equals = trimmed.indexOf('=');
+		if (equals > 0) {
+			const key = trimmed.substring(0, equals).trim();
+			const predicate = trimmed.substring(equals + 1).trim();
+			if (key !== '' && predicate !== '') mappings.predicates.set(key, predicate);
+			return;
+		}
+		const match = trimmed.match(/^([A-Za-z][\w-]*)\s*:\s*<?([^\s>]+)>?$/);
+		if (match !== null) mappings.prefixes.set(match[1], match[2]);
+	});
+	return mappings;
+}
+
+/**
+ * Turns property values into triples: notes become IRIs under the base IRI, links to notes become
+ * those notes' IRIs, urls become resources and everything else becomes a literal.
+ * Every note gets its name as `rdfs:label`.
+ * @param resolveLink the vault path a link from a note leads to, if it leads anywhere
+ */
+export function toTriples(statements: PropertyStatement[], baseIri: string, mappings: RdfMappings, resolveLink: (linkpath: string, fromPath: string) => string | undefined): Triple[] {
+	const triples: Triple[] = [];
+	const seen = new Set<string>();
+	const notes = new Set<string>();
+	statements.forEach(statement => {
+		notes.add(statement.notePath);
+		const triple = { subject: noteIri(baseIri, statement.notePath), predicate: predicateFor(baseIri, mappings, statement.key), object: objectFor(statement) };
+		/* the same value reached through several edges is one triple */
+		const id = JSON.stringify(triple);
+		if (seen.has(id)) return;
+		seen.add(id);
+		triples.push(triple);
+	});
+	notes.forEach(notePath => triples.push({
+		subject: noteIri(baseIri, notePath),
+		predicate: RDFS + 'label',
+		object: { literal: notePath.substring(notePath.lastIndexOf('/') + 1).replace(/\.md$/, '') }
+	}));
+	return triples;
+
+	function objectFor(statement: PropertyStatement): RdfTerm {
+		const val = statement.value;
+		if (typeof val === 'string' && isFile(val.trim())) {
+			const link = val.trim().slice(2, -2).split('|')[0];
+			const hash = link.indexOf('#');
+			const linkpath = hash === -1 ? link : link.substring(0, hash);
+			const target = linkpath === '' ? statement.notePath : resolveLink(linkpath, statement.notePath) ?? linkpath;
+			const fragment = hash === -1 ? '' : '#' + encodeURIComponent(link.substring(hash + 1).replace(/^[#^]+/, ''));
+			notes.add(target);
+			return { iri: noteIri(baseIri, target) + fragment };
+		}
+		if (typeof val === 'string' && isURL(val.trim())) return { iri: escapeIri(val.trim()) };
+		return literalFor(val, statement.type);
+	}
+}
+
+/**
+ * Writes triples as Turtle, one block per subject
+ */
+export function toTurtle(triples: Triple[], baseIri: string, mappings: RdfMappings): string {
+	const prefixes = allPrefixes(baseIri, mappings);
+	const lines = [...prefixes.entries()].map(([prefix, iri]) => `@prefix ${prefix}: <${escapeIri(iri)}> .`);
+	groupBy(triples, triple => triple.subject).forEach((forSubject, subject) => {
+		lines.push('');
+		lines.push(`<${escapeIri(subject)}>`);
+		const predicates = groupBy(forSubject, triple => triple.predicate);
+		let index = 0;
+		predicates.forEach((forPredicate, predicate) => {
+			index++;
+			const objects = forPredicate.map(triple => turtleTerm(triple.object, prefixes)).join(', ');
+			lines.push(`\t${turtleIri(predicate, prefixes)} ${objects}${index === predicates.size ? ' .' : ' ;'}`);
+		});
+	});
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes triples as a JSON-LD document with a `@graph` of one object per subject
+ */
+export function toJsonLd(triples: Triple[], baseIri: string, mappings: RdfMappings): string {
+	const prefixes = allPrefixes(baseIri, mappings);
+	const context: { [prefix: string]: string } = {};
+	prefixes.forEach((iri, prefix) => context[prefix] = iri);
+	const graph: JsonLdNode[] = [];
+	groupBy(triples, triple => triple.subject).forEach((forSubject, subject) => {
+		const node: JsonLdNode = { '@id': subject };
+		groupBy(forSubject, triple => triple.predicate).forEach((forPredicate, predicate) => {
+			const values = forPredicate.map(triple => jsonLdTerm(triple.object, prefixes));
+			node[compactIri(predicate, prefixes) ?? predicate] = values.length === 1 ? values[0] : values;
+		});
+		graph.push(node);
+	});
+	return JSON.stringify({ '@context': context, '@graph': graph }, null, 2) + '\n';
+}
+
+/**
+ * The IRI of a note: its path without the extension, under the base IRI
+ */
+export function noteIri(baseIri: string, notePath: string): string {
+	return baseIri + notePath.replace(/\.md$/, '').split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
+
+/**
+ * The predicate a property key becomes: its mapping, the key itself when it's a prefixed name
+ * like `schema:author` or an IRI, otherwise an IRI under `<base IRI>property/`
+ */
+export function predicateFor(baseIri: string, mappings: RdfMappings, key: string): string {
+	const mapped = (mappings.predicates.get(key) ?? key).replace(/^<(.*)>$/, '$1');
+	if (isURL(mapped)) return mapped;
+	const colon = mapped.indexOf(':');
+	if (colon > 0 && mappings.prefixes.has(mapped.substring(0, colon))) {
+		return mappings.prefixes.get(mapped.substring(0, colon)) + mapped.substring(colon + 1);
+	}
+	return baseIri + 'property/' + encodeURIComponent(mapped);
+}
+
+function literalFor(val: string | number | boolean, type?: ScalarType): RdfTerm {
+	if (typeof val === 'number') return { literal: String(val), datatype: XSD + (Number.isInteger(val) ? 'integer' : 'decimal') };
+	if (typeof val === 'boolean') return { literal: String(val), datatype: XSD + 'boolean' };
+	if (type === 'date') return { literal: val, datatype: XSD + 'date' };
+	/* xsd:dateTime needs seconds, which Obsidian leaves out */
+	if (type === 'datetime') return { literal: /T\d\d:\d\d$/.test(val) ? val + ':00' : val, datatype: XSD + 'dateTime' };
+	return { literal: val };
+}
+
+function allPrefixes(baseIri: string, mappings: RdfMappings): Map<string, string> {
+	const prefixes = new Map<string, string>([['rdfs', RDFS], ['xsd', XSD], ['prop', baseIri + 'property/']]);
+	mappings.prefixes.forEach((iri, prefix) => prefixes.set(prefix, iri));
+	return prefixes;
+}
+
+/**
+ * A prefixed name for the IRI, when a prefix covers it and the rest is a plain local name
+ */
+function compactIri(iri: string, prefixes: Map<string, string>): string | undefined {
+	let compacted: string | undefined;
+	prefixes.forEach((prefixIri, prefix) => {
+		if (compacted !== undefined || !iri.startsWith(prefixIri)) return;
+		const local = iri.substring(prefixIri.length);
+		if (/^[A-Za-z_][\w-]*$/.test(local)) compacted = prefix + ':' + local;
+	});
+	return compacted;
+}
+
+function turtleIri(iri: string, prefixes: Map<string, string>): string {
+	return compactIri(iri, prefixes) ?? `<${escapeIri(iri)}>`;
+}
+
+function turtleTerm(term: RdfTerm, prefixes: Map<string, string>): string {
+	if ('iri' in term) return turtleIri(term.iri, prefixes);
+	const literal = '"' + term.literal.replace(/[\\"\n\r\t]/g, char => ({ '\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t' } as { [char: string]: string })[char]) + '"';
+	return term.datatype === undefined ? literal : literal + '^^' + turtleIri(term.datatype, prefixes);
+}
+
+function jsonLdTerm(term: RdfTerm, prefixes: Map<string, string>): JsonLdValue {
+	if ('iri' in term) return { '@id': term.iri };
+	if (term.datatype === undefined) return term.literal;
+	return { '@value': term.literal, '@type': compactIri(term.datatype, prefixes) ?? term.datatype };
+}
+
+/** Characters Turtle doesn't allow inside `<...>` are percent-encoded */
+function escapeIri(iri: string): string {
+	return iri.split('').map(char => char.charCodeAt(0) <= 0x20 || '<>"{}|^`\\'.indexOf(char) !== -1 ? encodeURIComponent(char) : char).join('');
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+	const groups = new Map<string, T[]>();
+	items.forEach(item => {
+		const key = keyOf(item);
+		const group = groups.get(key) ?? [];
+		group.push(item);
+		groups.set(key, group);
+	});
+	return groups;
+}
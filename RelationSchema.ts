@@ -0,0 +1,119 @@
+import { App, getAllTags, parseYaml, TFile } from "obsidian";
+import { FileNode } from "FileNode";
+
+type NodeType = 'card' | 'url' | 'file' | 'group';
+
+/**
+ * The rules for a single edge label
+ */
+export type RelationRule = {
+	/** Folders (e.g. `Projects/`) or tags (e.g. `#project`) the source note must match, any of them */
+	source?: string[];
+	/** Node types the edge is allowed to point at */
+	target?: NodeType[];
+	cardinality?: 'single' | 'many';
+}
+
+/**
+ * The relation vocabulary declared in the schema file
+ */
+export type RelationSchema = {
+	relations: { [label: string]: RelationRule };
+}
+
+export type SchemaViolation = {
+	filePath: string;
+	key: string;
+	message: string;
+}
+
+/**
+ * Reads the schema file from the vault. `.json` files are parsed as JSON, anything else as YAML.
+ * `source` and `target` may be written as a single string or a list.
+ * @returns undefined if no file exists at the path
+ */
+export async function loadRelationSchema(app: App, path: string): Promise<RelationSchema | undefined> {
+	const file = app.vault.getFileByPath(path);
+	if (file === null) return undefined;
+	const raw = await app.vault.cachedRead(file);
+	const parsed = file.extension === 'json' ? JSON.parse(raw) : parseYaml(raw);
+	if (parsed === null || typeof parsed !== 'object' || typeof parsed.relations !== 'object') {
+		throw new Error(`Schema file ${path} has no "relations" section`);
+	}
+	const relations: { [label: string]: RelationRule } = {};
+	Object.keys(parsed.relations).forEach(label => {
+		const rule = parsed.relations[label] ?? {};
+		relations[label] = {
+			source: rule.source === undefined ? undefined : asList(rule.source),
+			target: rule.target === undefined ? undefined : asList(rule.target) as NodeType[],
+			cardinality: rule.cardinality === 'single' ? 'single' : 'many'
+		}
+	});
+	return { relations: relations };
+}
+
+/**
+ * Checks every property a push would write against the schema.
+ * Only keys written by edges can be unknown labels; keys from group membership, node colors or axes may be left out of the schema.
+ * @param fileNodes the nodes the push was built from, one per canvas node
+ * @param propsByPath the merged props per note, after de-duping nodes for the same file
+ */
+export function validateAgainstSchema(app: App, schema: RelationSchema, fileNodes: FileNode[], propsByPath: Map<string, { [key: string]: string[] }>): SchemaViolation[] {
+	const violations: SchemaViolation[] = [];
+	const labelsByPath = new Map<string, Set<string>>();
+	fileNodes.forEach(fileNode => {
+		const labels = labelsByPath.get(fileNode.filePath) ?? new Set<string>();
+		fileNode.connections.forEach(connection => labels.add(connection.propLbl ?? ''));
+		labelsByPath.set(fileNode.filePath, labels);
+	});
+
+	propsByPath.forEach((props, filePath) => {
+		const file = app.vault.getFileByPath(filePath);
+		Object.keys(props).forEach(key => {
+			const rule = schema.relations[key];
+			if (rule === undefined) {
+				if (labelsByPath.get(filePath)?.has(key)) violations.push({ filePath: filePath, key: key, message: `Unknown label "${key}"` });
+				return;
+			}
+			if (rule.source !== undefined && file !== null && !sourceMatches(app, file, rule.source)) {
+				violations.push({ filePath: filePath, key: key, message: `Note is not in any of: ${rule.source.join(', ')}` });
+			}
+			const distinct = new Set(props[key]);
+			if (rule.cardinality === 'single' && distinct.size > 1) {
+				violations.push({ filePath: filePath, key: key, message: `Single-valued, but ${distinct.size} values found` });
+			}
+		});
+	});
+
+	fileNodes.forEach(fileNode => {
+		if (!propsByPath.has(fileNode.filePath)) return;
+		fileNode.connections.forEach(connection => {
+			const label = connection.propLbl;
+			if (label === undefined) return;
+			const rule = schema.relations[label];
+			if (rule?.target === undefined || connection.type === undefined) return;
+			if (rule.target.includes(connection.type)) return;
+			violations.push({
+				filePath: fileNode.filePath,
+				key: label,
+				message: `Points at a ${connection.type} (${connection.propVal}), only ${rule.target.join('/')} allowed`
+			});
+		});
+	});
+
+	return violations;
+}
+
+function asList(val: unknown): string[] {
+	return (Array.isArray(val) ? val : [val]).map(String);
+}
+
+function sourceMatches(app: App, file: TFile, sources: string[]): boolean {
+	const cache = app.metadataCache.getFileCache(file);
+	const tags = cache ? getAllTags(cache) ?? [] : [];
+	return sources.some(source => {
+		if (source.startsWith('#')) return tags.some(tag => tag.toLowerCase() === source.toLowerCase());
+		const folder = source.endsWith('/') ? source : source + '/';
+		return file.path.startsWith(folder);
+	});
+}
@@ -0,0 +1,57 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { SchemaViolation } from "RelationSchema";
+
+/**
+ * Lists the schema violations a push would introduce.
+ * When blocking, the only way out is to cancel.
+ */
+export class SchemaReportModal extends Modal {
+	violations: SchemaViolation[];
+	blocking: boolean;
+	onContinue: () => Promise<void>;
+
+	constructor(app: App, violations: SchemaViolation[], blocking: boolean, onContinue: () => Promise<void>) {
+		super(app);
+		this.violations = violations;
+		this.blocking = blocking;
+		this.onContinue = onContinue;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(`Relation schema: ${this.violations.length} violation(s)`);
+
+		const tableEl = contentEl.createEl('table', { cls: 'semantic-canvas-preview-table' });
+		const headerRow = tableEl.createEl('tr');
+		['Note', 'Key', 'Problem'].forEach(text => headerRow.createEl('th', { text: text }));
+		this.violations.forEach(violation => {
+			const row = tableEl.createEl('tr');
+			row.createEl('td', { text: violation.filePath });
+			row.createEl('td', { text: violation.key });
+			row.createEl('td', { text: violation.message });
+		});
+
+		if (this.blocking) {
+			contentEl.createEl('p', { text: 'Push blocked. Fix the canvas or the schema and try again.' });
+		}
+
+		const buttons = new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText(this.blocking ? 'Close' : 'Cancel')
+				.onClick(() => this.close()));
+		if (!this.blocking) {
+			buttons.addButton(btn => btn
+				.setButtonText('Push anyway')
+				.setWarning()
+				.onClick(() => {
+					this.close();
+					this.onContinue().catch(e => new Notice('Push failed: ' + e.message));
+				}));
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,110 @@
+import { AllCanvasNodeData, CanvasData } from "canvas";
+
+/**
+ * A node of a graph built from note properties. Files are keyed by path, cards and urls by their text,
+ * so the same note or value reached from several places is only ever one node.
+ */
+export type GraphNode = {
+	key: string;
+	type: 'file' | 'card' | 'url';
+	/** The file path for files, the text for cards & urls */
+	value: string;
+	/** How many hops from the starting note(s) this node was first reached */
+	depth: number;
+}
+
+export type GraphEdge = {
+	from: string;
+	to: string;
+	label: string;
+}
+
+/**
+ * A typed-link graph of notes and values, independent of canvas geometry
+ */
+export class SemanticGraph {
+	nodes: Map<string, GraphNode> = new Map();
+	edges: GraphEdge[] = [];
+
+	/**
+	 * Adds the node if it isn't there yet
+	 * @returns the node's key
+	 */
+	addNode(type: GraphNode['type'], value: string, depth: number): string {
+		const key = (type === 'file' ? 'file:' : 'value:') + value;
+		const existing = this.nodes.get(key);
+		if (existing === undefined) {
+			this.nodes.set(key, { key: key, type: type, value: value, depth: depth });
+		} else if (depth < existing.depth) {
+			existing.depth = depth;
+		}
+		return key;
+	}
+
+	/**
+	 * Adds the edge unless an edge with the same ends and label exists
+	 */
+	addEdge(from: string, to: string, label: string) {
+		if (from === to) return;
+		if (this.edges.some(edge => edge.from === from && edge.to === to && edge.label === label)) return;
+		this.edges.push({ from: from, to: to, label: label });
+	}
+
+	/**
+	 * Lays the graph out one column per depth, the starting note(s) in the first column
+	 * @param rootColor canvas color for depth-0 nodes
+	 */
+	toCanvasData(rootColor?: string): CanvasData {
+		const canvasContents: CanvasData = { nodes: [], edges: [] };
+		const idByKey = new Map<string, string>();
+		const columns = new Map<number, GraphNode[]>();
+		this.nodes.forEach(node => {
+			columns.set(node.depth, [...(columns.get(node.depth) ?? []), node]);
+		});
+
+		[...columns.entries()].sort((a, b) => a[0] - b[0]).forEach(([depth, nodesAtDepth]) => {
+			let curY = 0;
+			nodesAtDepth.forEach(node => {
+				const id = (Math.random() + 1).toString(36).substring(4);
+				idByKey.set(node.key, id);
+				const newNode = makeCanvasNode(node, id, depth * 600, curY);
+				if (depth === 0 && rootColor !== undefined) newNode.color = rootColor;
+				curY = curY + newNode.height + 50;
+				canvasContents.nodes.push(newNode);
+			});
+		});
+
+		this.edges.forEach(edge => {
+			const fromNode = idByKey.get(edge.from);
+			const toNode = idByKey.get(edge.to);
+			if (fromNode === undefined || toNode === undefined) return;
+			canvasContents.edges.push({
+				id: (Math.random() + 1).toString(36).substring(4),
+				fromNode: fromNode,
+				fromSide: 'right',
+				toNode: toNode,
+				toSide: 'left',
+				label: edge.label
+			});
+		});
+
+		return canvasContents;
+	}
+}
+
+/**
+ * Sized the same way notes are when creating a canvas from a note
+ */
+function makeCanvasNode(node: GraphNode, id: string, x: number, y: number): AllCanvasNodeData {
+	if (node.type === 'file') return { id: id, type: 'file', file: node.value, x: x, y: y, width: 400, height: 400 };
+	if (node.type === 'url') return { id: id, type: 'link', url: node.value, x: x, y: y, width: 400, height: 400 };
+	return {
+		id: id,
+		type: 'text',
+		text: node.value,
+		x: x,
+		y: y,
+		width: node.value.length > 15 ? 400 : 200,
+		height: node.value.length > 15 ? 200 : 100
+	};
+}
@@ -0,0 +1,186 @@
+import { CoreSettings, DEFAULT_CORE_SETTINGS, getCanvasMapFromData, getNoteProps, isExcludedKey, mergeNoteProps } from "Core";
+import { HeadlessVault } from "HeadlessVault";
+import { hasEffect, KeyChange, planNoteChanges, PushMode, recordWrittenProps, valuesWrittenElsewhere, writeKeyChange, writtenForMirror, WrittenProps } from "PushPlan";
+import { CanvasAxes } from "Axes";
+
+const USAGE = `Usage: semantic-canvas <vault folder> <canvas path>... [options]
+
+Pushes canvases into the properties of the notes on them, like the plugin's push commands.
+Canvas paths are relative to the vault folder.
+
+Options:
+  --mode <append|overwrite|mirror>  how canvas values combine with existing ones (default: append)
+  --check                           only report what would change; exits with 1 if anything would
+  --config-dir <folder>             the vault's config folder (default: .obsidian)
+  --help                            show this message`;
+
+type Options = {
+	vault: string;
+	canvases: string[];
+	mode: PushMode;
+	check: boolean;
+	configDir: string;
+}
+
+/**
+ * What the plugin saves in its data file: its settings, next to records like what each canvas wrote
+ */
+type PluginData = Partial<CoreSettings> & {
+	writtenProps?: { [canvasPath: string]: WrittenProps };
+	canvasAxes?: { [canvasPath: string]: CanvasAxes };
+}
+
+/**
+ * What pushing one canvas would do to one note
+ */
+type NoteChange = {
+	file: { path: string };
+	keys: KeyChange[];
+	include: boolean;
+}
+
+/**
+ * Runs the command line, reading settings, property types and what each canvas wrote before from the vault's config folder
+ * @returns the exit code: 0 when done (or, when checking, in sync), 1 when checking found changes, 2 on errors
+ */
+export function run(args: string[]): number {
+	let options: Options;
+	try {
+		options = parseArgs(args);
+	} catch (e) {
+		console.error(`${e instanceof Error ? e.message : e}\n\n${USAGE}`);
+		return 2;
+	}
+	if (options.canvases.length === 0) {
+		console.log(USAGE);
+		return args.includes('--help') ? 0 : 2;
+	}
+
+	try {
+		const vault = new HeadlessVault(options.vault, options.configDir);
+		const pluginData = vault.readPluginData() as PluginData | undefined;
+		const { writtenProps, canvasAxes, ...savedSettings } = pluginData ?? {};
+		const settings: CoreSettings = Object.assign({}, DEFAULT_CORE_SETTINGS, savedSettings);
+		const written: { [canvasPath: string]: WrittenProps } = writtenProps ?? {};
+
+		let pending = 0;
+		options.canvases.forEach(canvasPath => {
+			const changes = planCanvas(vault, canvasPath, settings, options.mode, written, canvasAxes?.[canvasPath] ?? {});
+			const effective = changes.filter(change => change.keys.some(hasEffect));
+			pending = pending + effective.length;
+			report(canvasPath, effective, options.check);
+			if (options.check) return;
+
+			effective.forEach(change => {
+				const frontmatter = vault.readFrontmatter(change.file.path) ?? {};
+				const updates: { [key: string]: unknown } = {};
+				change.keys.filter(hasEffect).forEach(keyChange => {
+					writeKeyChange(frontmatter, keyChange, options.mode);
+					updates[keyChange.key] = frontmatter[keyChange.key];
+				});
+				vault.writeFrontmatter(change.file.path, updates);
+			});
+			const record = written[canvasPath] ?? {};
+			recordWrittenProps(record, changes, options.mode);
+			written[canvasPath] = record;
+		});
+
+		/* remember what was written, like a push from Obsidian does, so mirroring keeps working */
+		if (!options.check && pluginData !== undefined) vault.writePluginData({ ...pluginData, writtenProps: written });
+		return options.check && pending > 0 ? 1 : 0;
+	} catch (e) {
+		console.error(e instanceof Error ? e.message : e);
+		return 2;
+	}
+}
+
+/**
+ * Works out what pushing a canvas would write into each note, without writing anything
+ */
+function planCanvas(vault: HeadlessVault, canvasPath: string, settings: CoreSettings, mode: PushMode, written: { [canvasPath: string]: WrittenProps }, axes: CanvasAxes): NoteChange[] {
+	const map = getCanvasMapFromData(vault.readCanvas(canvasPath), settings.groupEdges);
+	if (map === undefined) throw new Error(`No canvas data found in ${canvasPath}`);
+	const notes = mergeNoteProps((map.files ?? []).map(file => getNoteProps(file, map, settings, vault, axes)));
+	notes.forEach(note => {
+		if (!vault.exists(note.filePath)) throw new Error('No file found at path ' + note.filePath);
+	});
+
+	/* Mirroring also cleans up notes this canvas wrote to before, even if they've lost every edge since */
+	const previouslyWritten = mode === PushMode.Mirror ? writtenForMirror(written[canvasPath] ?? {}, key => isExcludedKey(settings, key)) : {};
+	const notePaths = notes.map(note => note.filePath);
+	Object.keys(previouslyWritten).forEach(notePath => {
+		if (!notePaths.includes(notePath) && vault.exists(notePath)) notePaths.push(notePath);
+	});
+
+	return notePaths
+		.filter(notePath => notePath.endsWith('.md'))
+		.map(notePath => {
+			const note = notes.find(each => each.filePath === notePath);
+			const toSet = note === undefined ? { props: {} } : { props: note.propsOnCanvas, sources: note.sources, types: note.types };
+			return {
+				file: { path: notePath },
+				keys: planNoteChanges(notePath, vault.readFrontmatter(notePath), toSet, mode, previouslyWritten,
+					(path, key) => valuesWrittenElsewhere(written, canvasPath, path, key)),
+				include: true
+			};
+		})
+		.filter(change => change.keys.length > 0);
+}
+
+function report(canvasPath: string, changes: NoteChange[], check: boolean) {
+	if (changes.length === 0) {
+		console.log(`${canvasPath}: notes are in sync`);
+		return;
+	}
+	console.log(`${canvasPath}: ${changes.length} note(s) ${check ? 'to update' : 'updated'}`);
+	changes.forEach(change => {
+		console.log(`  ${change.file.path}`);
+		change.keys.filter(hasEffect).forEach(keyChange => {
+			keyChange.values.forEach(val => {
+				if (val.status === 'added') console.log(`    + ${keyChange.key}: ${val.value}`);
+				if (val.status === 'dropped') console.log(`    - ${keyChange.key}: ${val.value}`);
+			});
+			keyChange.unparsable.forEach(val => console.log(`    ! ${keyChange.key}: "${val}" isn't a ${keyChange.type}, skipped`));
+		});
+	});
+}
+
+function parseArgs(args: string[]): Options {
+	const options: Options = { vault: '', canvases: [], mode: PushMode.Append, check: false, configDir: '.obsidian' };
+	const positional: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		switch (args[i]) {
+			case '--check':
+				options.check = true;
+				break;
+			case '--mode':
+				options.mode = parseMode(args[++i]);
+				break;
+			case '--config-dir':
+				if (args[i + 1] === undefined) throw new Error('--config-dir needs a folder name');
+				options.configDir = args[++i];
+				break;
+			case '--help':
+				return options;
+			default:
+				if (args[i].startsWith('--')) throw new Error(`Unknown option ${args[i]}`);
+				positional.push(args[i]);
+		}
+	}
+	if (positional.length === 1) throw new Error('No canvas given');
+	options.vault = positional[0] ?? '';
+	options.canvases = positional.slice(1).map(canvasPath => canvasPath.replace(/\\/g, '/'));
+	return options;
+}
+
+function parseMode(mode: string | undefined): PushMode {
+	switch (mode) {
+		case 'append': return PushMode.Append;
+		case 'overwrite': return PushMode.Overwrite;
+		case 'mirror': return PushMode.Mirror;
+	}
+	throw new Error(`Unknown push mode "${mode}", use append, overwrite or mirror`);
+}
+
+/* only when run as a command, not when the runner is imported */
+if (require.main === module) process.exitCode = run(process.argv.slice(2));
@@ -0,0 +1,21 @@
+import esbuild from "esbuild";
+import builtins from "builtin-modules";
+
+/* The headless runner: the core, bundled for Node without Obsidian */
+await esbuild.build({
+	banner: {
+		js: "#!/usr/bin/env node",
+	},
+	entryPoints: ["cli.ts"],
+	bundle: true,
+	platform: "node",
+	alias: {
+		"obsidian": "./HeadlessObsidian.ts",
+	},
+	external: [...builtins],
+	format: "cjs",
+	target: "node16",
+	logLevel: "info",
+	treeShaking: true,
+	outfile: "cli.js",
+});
@@ -0,0 +1,8 @@
+/* Tests run the headless core in Node, with the same stand-in for `obsidian` as the command-line runner */
+export default {
+	testEnvironment: "node",
+	roots: ["<rootDir>/tests"],
+	modulePaths: ["<rootDir>"],
+	moduleNameMapper: { "^obsidian$": "<rootDir>/HeadlessObsidian.ts" },
+	transform: { "^.+\\.ts$": ["ts-jest", { tsconfig: { esModuleInterop: true } }] },
+};
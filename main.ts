@@ -1,27 +1,85 @@
-import { App, Menu, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, TextFileView } from 'obsidian';
-import { AllCanvasNodeData, CanvasData, CanvasEdgeData, CanvasFileData, CanvasGroupData, CanvasLinkData, CanvasNodeData, CanvasTextData, NodeSide } from 'canvas';
-import { FileNode } from 'FileNode';
-
-export interface SemanticCanvasPluginSettings {
+import { App, Menu, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, TextFileView, Vault } from 'obsidian';
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData, CanvasFileData, CanvasGroupData, CanvasNodeData, CanvasTextData, NodeSide } from 'canvas';
+import { FileNode, vaultLookup } from 'FileNode';
+import { CanvasMap, CoreSettings, DEFAULT_CORE_SETTINGS, getCanvasEdges, getCanvasMapFromData, getCanvasNodes, GROUP_EDGE_KEY, GroupEdges, GroupValues, isExcludedKey, isFile, isGroup, isURL, mergeNoteProps, RawCanvasObj } from 'Core';
+import { applyFileChanges, describePushMode, FileChange, Frontmatter, hasEffect, planFileChanges, PushMode, recordWrittenProps, ValueSources, valuesWrittenElsewhere, writtenForMirror, writtenPaths, WrittenProps } from 'PushPlan';
+import { ProvenanceModal } from 'ProvenanceModal';
+import { SemanticGraph } from 'SemanticGraph';
+import { NeighbourhoodModal } from 'NeighbourhoodModal';
+import { ChoiceModal } from 'ChoiceModal';
+import { ConfirmModal } from 'ConfirmModal';
+import { allTags, notesInFolder, notesMatchingSearch, notesWithTag, savedSearches } from 'NoteSets';
+import { PushPreviewModal } from 'PushPreviewModal';
+import { Journal, JournalTransaction, replaceSection } from 'Journal';
+import { HistoryModal } from 'HistoryModal';
+import { parseInverseRelations } from 'InverseRelations';
+import { loadRelationSchema, RelationSchema, validateAgainstSchema } from 'RelationSchema';
+import { SchemaReportModal } from 'SchemaReportModal';
+import { CanvasEdgeSnapshot, diffEdgeSnapshots, diffNodeTexts, EdgeChange, EdgeSnapshot, isBidirectional, NodeTextChange, snapshotEdges } from 'EdgeSnapshots';
+import { avoidOverlaps, layoutCanvas, LayoutAlgorithm } from 'Layout';
+import { SemanticCanvasApi } from 'Api';
+import { inferScalarType, isScalar, labelForProperty, parseScalar, registeredType, resolvePropertyType, ScalarType, splitTypedLabel } from 'PropertyTypes';
+import { CanvasAxes, positionByAxes } from 'Axes';
+import { colorCanvas, parseColorMappings } from 'ColorMappings';
+import { AxesModal } from 'AxesModal';
+import { buildKanbanCanvas, columnMoves, KanbanColumns, kanbanColumnsOf, moveIntoColumn } from 'Kanban';
+import { parseRdfMappings, PropertyStatement, toJsonLd, toTriples, toTurtle } from 'RdfExport';
+import { diagramOfCanvas, toDot, toGraphMl, toMermaid } from 'DiagramExport';
+import { diffNoteSnapshots, NoteSnapshot, snapshotFrontmatter } from 'NoteSnapshots';
+
+export interface SemanticCanvasPluginSettings extends CoreSettings {
 	/* Note ➡️ canvas */
 	newFileLocation: Location;
 	customFileLocation: string;
-	/* Canvas ➡️ note */
-	cardDefault: string;
-	fileDefault: string;
-	urlDefault: string;
-	groupDefault: string;
-	useCards: boolean;
-	useUrls: boolean;
-	useFiles: boolean;
-	useGroups: boolean;
-	/**
-	 * List of keys to ignore when doing all the things involving note properties
-	 */
-	excludeKeys: string;
+	/**
+	 * How generated canvases are arranged, and what "Re-layout canvas" uses
+	 */
+	layoutAlgorithm: LayoutAlgorithm;
+	/**
+	 * Re-layout the whole canvas after pulling in note properties, instead of only placing the new nodes
+	 */
+	layoutAfterPull: boolean;
+	/**
+	 * Axes given to canvases built from a set of notes, which place each note by its values
+	 */
+	defaultAxes: CanvasAxes;
+	/* Canvas ➡️ note, see also `CoreSettings` */
+	/**
+	 * Vault path of the relation schema file; empty to skip validation
+	 */
+	schemaPath: string;
+	blockOnSchemaViolations: boolean;
+	/**
+	 * Show a preview of every change before pushing canvas data to notes
+	 */
+	previewBeforePush: boolean;
 	/* Backlinks settings */
 	useBacklinks: boolean;
 	backlinksHeading: string;
+	/**
+	 * Canvas color given to edges whose values are no longer in their note
+	 */
+	staleEdgeColor: string;
+	/**
+	 * How many past operations to keep around for undo
+	 */
+	journalSize: number;
+	/**
+	 * Keep canvases and note properties in step as either one is edited
+	 */
+	liveSync: boolean;
+	/**
+	 * Milliseconds to wait after the last edit before live sync writes anything
+	 */
+	liveSyncDelay: number;
+	/**
+	 * Exported notes become IRIs under this
+	 */
+	rdfBaseIri: string;
+	/**
+	 * Prefixes (`schema: https://schema.org/`) and key → predicate mappings (`related = schema:isRelatedTo`) for exports, one per line
+	 */
+	rdfMappings: string;
 }
 
 export enum Location {
@@ -30,142 +88,197 @@ export enum Location {
 	SpecifiedFolder,
 }
 
-interface CanvasNodeMap {
-	cards?: Array<CanvasTextData>,
-	files?: Array<CanvasFileData> & { inGroups?: Array<CanvasGroupData> },
-	urls?: Array<CanvasLinkData>,
-	groups?: Array<CanvasGroupData>
+type FileAndPropsToSetMap = {
+	file: TFile,
+	props: null | { [key: string]: string[] },
+	sources?: { [key: string]: ValueSources },
+	types?: { [key: string]: ScalarType }
+}
+
+export type ProvenanceEntry = {
+	key: string;
+	value: string;
+	canvasPath: string;
+	elementIds: string[];
+	stillInNote: boolean;
 }
 
-export interface CanvasMap extends CanvasNodeMap {
-	edges?: Array<CanvasEdgeData & { isBidirectional: boolean }>
+export type NeighbourhoodOptions = {
+	start: TFile;
+	depth: number;
+	/** Keys to follow; empty to follow every list property */
+	keys: string[];
+	includeIncoming: boolean;
 }
 
-export type ConnectionProps = {
-	otherSideId?: string;
-	otherSide?: CanvasNodeData
-	type?: 'card' | 'url' | 'file' | 'group';
-	isBidirectional?: boolean;
-	propLbl?: string;
-	propVal?: string;
+/**
+ * A value an edge puts into a note's property
+ */
+type EdgeContribution = {
+	notePath: string;
+	key: string;
+	type?: ScalarType;
+	value: string;
 }
 
-type FileAndPropsToSetMap = {
-	file: TFile,
-	props: null | { [key: string]: string[] }
+/**
+ * A value to rename in one note's property, after the card or link holding it was edited
+ */
+type ValueRename = {
+	notePath: string;
+	key: string;
+	from: string;
+	to: string | number | boolean;
 }
 
-type RawCanvasObj = {
-	nodes: Array<CanvasNodeData>,
-	edges: Array<CanvasEdgeData>
+/** How long a card or link has to go unedited before offering to rename its value in notes */
+const VALUE_RENAME_DELAY = 3000;
+
+/**
+ * What a push would do, along with what it was worked out from
+ */
+type PlannedPush = {
+	changes: FileChange[];
+	data: CanvasMap;
+	fileNodes: FileNode[];
+	filesMap: FileAndPropsToSetMap[];
 }
 
 const DEFAULT_SETTINGS: SemanticCanvasPluginSettings = {
 	newFileLocation: Location.VaultFolder,
 	customFileLocation: '',
-	// The default strings for unlabeled edges
-	cardDefault: 'cards',
-	fileDefault: 'files',
-	urlDefault: 'urls',
-	// The string for group containment
-	groupDefault: 'groups',
-	// For disabling whole types of interactions
-	useCards: true,
-	useUrls: true,
-	useFiles: true,
-	useGroups: false,
-	excludeKeys: 'alias,aliases,tags,cssClasses',
+	layoutAlgorithm: LayoutAlgorithm.Layered,
+	layoutAfterPull: false,
+	defaultAxes: {},
+	...DEFAULT_CORE_SETTINGS,
+	schemaPath: '',
+	blockOnSchemaViolations: false,
+	previewBeforePush: true,
 	// Backlinks settings
 	useBacklinks: true,
-	backlinksHeading: '## Connections'
+	backlinksHeading: '## Connections',
+	staleEdgeColor: '1',
+	journalSize: 50,
+	liveSync: false,
+	liveSyncDelay: 1000,
+	rdfBaseIri: 'https://example.org/vault/',
+	rdfMappings: ''
 }
 
 export default class SemanticCanvasPlugin extends Plugin {
 	settings: SemanticCanvasPluginSettings;
-	lastCanvasEdges: Map<string, CanvasEdgeData> = new Map();
+	/** For other plugins & scripts, at `app.plugins.plugins['semantic-canvas'].api` */
+	api: SemanticCanvasApi;
+	journal: Journal;
+	/** What each canvas has written into notes, keyed by canvas path */
+	writtenProps: { [canvasPath: string]: WrittenProps };
+	/** Each canvas's edges as last seen, keyed by canvas path */
+	edgeSnapshots: { [canvasPath: string]: CanvasEdgeSnapshot };
+	/** The properties each canvas's x & y positions stand for, keyed by canvas path */
+	canvasAxes: { [canvasPath: string]: CanvasAxes };
+	/** The property key whose values are the columns of each kanban canvas, keyed by canvas path */
+	kanbanCanvases: { [canvasPath: string]: string };
+	/** Which column every note was in on each kanban canvas, as last seen */
+	kanbanSnapshots: Map<string, KanbanColumns> = new Map();
+	/** Pending live sync runs, keyed by the path of the canvas or note that changed */
+	liveSyncTimers: Map<string, number> = new Map();
+	/**
+	 * What live sync last wrote to each canvas or note, and which canvas caused it.
+	 * A file that still has exactly that content changed because of live sync, not the user.
+	 */
+	liveSyncWrites: Map<string, { content: string, origin?: string }> = new Map();
+	/** Each note's properties as live sync last saw them, to tell which values were added or removed */
+	noteSnapshots: Map<string, NoteSnapshot> = new Map();
+	/** Card & link edits waiting for the user to stop typing, keyed by canvas path, then node id */
+	pendingValueRenames: Map<string, Map<string, NodeTextChange>> = new Map();
+	valueRenameTimers: Map<string, number> = new Map();
 
 	async onload() {
 		await this.loadSettings();
+		this.api = new SemanticCanvasApi(this);
 
 		/**
-		 * Monitor canvas changes to automatically manage backlinks
+		 * Keep a snapshot of every canvas's edges, so backlinks are maintained for edges added or
+		 * removed in any canvas, whether it was edited here, by sync or by git, in this session or the last
 		 */
+		this.app.workspace.onLayoutReady(async () => {
+			Object.keys(this.edgeSnapshots).forEach(path => {
+				if (this.app.vault.getFileByPath(path) === null) delete this.edgeSnapshots[path];
+			});
+			/* one save for the whole sweep, which also forgets the canvases deleted meanwhile */
+			for (const file of this.app.vault.getFiles().filter(file => file.extension === 'canvas')) {
+				await this.reconcileCanvasEdges(file, false);
+			}
+			await this.savePluginData();
+		});
+
 		this.registerEvent(
-			this.app.workspace.on('file-open', async (file: TFile | null) => {
-				if (!file || file.extension !== 'canvas' || !this.settings.useBacklinks) return;
-				
-				// Store the initial canvas state
-				const canvasData = await SemanticCanvasPlugin.getCanvasData(file);
-				if (!canvasData) return;
-				
-				// Store initial edges for comparison
-				this.lastCanvasEdges = new Map();
-				canvasData.edges.forEach(edge => {
-					this.lastCanvasEdges.set(edge.id, edge);
-				});
+			this.app.vault.on('modify', async (file: TFile) => {
+				if (file.extension !== 'canvas') return;
+				await this.reconcileCanvasEdges(file);
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('create', async (file: TAbstractFile) => {
+				if (!(file instanceof TFile) || file.extension !== 'canvas' || !this.app.workspace.layoutReady) return;
+				await this.reconcileCanvasEdges(file);
 			})
 		);
 
 		/**
-		 * Monitor canvas modifications to detect edge changes
+		 * Kanban canvases: dragging a note into another column sets its property
 		 */
+		this.app.workspace.onLayoutReady(async () => {
+			Object.keys(this.kanbanCanvases).forEach(path => {
+				if (this.app.vault.getFileByPath(path) === null) delete this.kanbanCanvases[path];
+			});
+			for (const path of Object.keys(this.kanbanCanvases)) {
+				const file = this.app.vault.getFileByPath(path);
+				if (file !== null) await this.reconcileKanban(file);
+			}
+		});
+
 		this.registerEvent(
 			this.app.vault.on('modify', async (file: TFile) => {
-				if (file.extension !== 'canvas' || !this.settings.useBacklinks) return;
-				
-				const canvasData = await SemanticCanvasPlugin.getCanvasData(file);
-				if (!canvasData) return;
-				
-				const currentEdges = new Map<string, CanvasEdgeData>();
-				canvasData.edges.forEach(edge => {
-					currentEdges.set(edge.id, edge);
-				});
-				
-				if (!this.lastCanvasEdges) {
-					this.lastCanvasEdges = currentEdges;
-					return;
-				}
-				
-				// Find newly added edges
-				for (const [id, edge] of currentEdges) {
-					if (!this.lastCanvasEdges.has(id)) {
-						// New edge detected
-						const fromNode = canvasData.nodes.find((n: any) => n.id === edge.fromNode);
-						const toNode = canvasData.nodes.find((n: any) => n.id === edge.toNode);
-						
-						if (fromNode?.type === 'file' && toNode?.type === 'file') {
-							const fromFile = this.app.vault.getFileByPath(fromNode.file);
-							const toFile = this.app.vault.getFileByPath(toNode.file);
-							
-							if (fromFile && toFile) {
-								const isBidirectional = edge.fromEnd === 'arrow' || edge.toEnd === 'none';
-								await this.addBacklinkBetweenFiles(fromFile, toFile, isBidirectional);
-							}
-						}
-					}
-				}
-				
-				// Find removed edges
-				for (const [id, edge] of this.lastCanvasEdges) {
-					if (!currentEdges.has(id)) {
-						// Edge was removed
-						const fromNode = canvasData.nodes.find((n: any) => n.id === edge.fromNode);
-						const toNode = canvasData.nodes.find((n: any) => n.id === edge.toNode);
-						
-						if (fromNode?.type === 'file' && toNode?.type === 'file') {
-							const fromFile = this.app.vault.getFileByPath(fromNode.file);
-							const toFile = this.app.vault.getFileByPath(toNode.file);
-							
-							if (fromFile && toFile) {
-								const isBidirectional = edge.fromEnd === 'arrow' || edge.toEnd === 'none';
-								await this.removeBacklinkBetweenFiles(fromFile, toFile, isBidirectional);
-							}
-						}
-					}
-				}
-				
-				// Update stored edges
-				this.lastCanvasEdges = currentEdges;
+				if (!this.kanbanCanvases.hasOwnProperty(file.path)) return;
+				await this.reconcileKanban(file);
+			})
+		);
+
+		/**
+		 * Follow renamed & moved files into canvases, properties and backlinks, and offer to tidy up after deleted ones
+		 */
+		this.registerEvent(
+			this.app.vault.on('rename', async (file: TAbstractFile, oldPath: string) => {
+				await this.handleRename(file, oldPath);
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', async (file: TAbstractFile) => {
+				if (file instanceof TFile) await this.handleDelete(file);
+			})
+		);
+
+		/**
+		 * Live sync: canvas edits update note properties, note edits update canvases
+		 */
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.liveSync) this.snapshotAllNotes();
+		});
+
+		this.registerEvent(
+			this.app.vault.on('modify', (file: TFile) => {
+				if (!this.settings.liveSync || file.extension !== 'canvas') return;
+				this.scheduleLiveSync(file.path, () => this.liveSyncCanvas(file));
+			})
+		);
+
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file: TFile) => {
+				if (!this.settings.liveSync || file.extension !== 'md') return;
+				this.scheduleLiveSync(file.path, () => this.liveSyncNote(file));
 			})
 		);
 
@@ -174,7 +287,7 @@ export default class SemanticCanvasPlugin extends Plugin {
 			id: 'set-canvas-to-note-properties',
 			name: 'Overwrite note properties based on canvas',
 			callback: () => {
-				this.pushCanvasDataToNotes(true);
+				this.pushCanvasDataToNotes(PushMode.Overwrite);
 			}
 		});
 
@@ -183,7 +296,71 @@ export default class SemanticCanvasPlugin extends Plugin {
 			id: 'append-canvas-to-note-properties',
 			name: 'Append note properties based on canvas',
 			callback: () => {
-				this.pushCanvasDataToNotes(false);
+				this.pushCanvasDataToNotes(PushMode.Append);
+			}
+		});
+
+		/* This command will make note properties exactly match the canvas, removing values whose edges are gone */
+		this.addCommand({
+			id: 'mirror-canvas-to-note-properties',
+			name: 'Mirror canvas to note properties',
+			callback: () => {
+				this.pushCanvasDataToNotes(PushMode.Mirror);
+			}
+		});
+
+		/* Reverts the most recent recorded operation */
+		this.addCommand({
+			id: 'undo-last-operation',
+			name: 'Undo last Semantic Canvas operation',
+			callback: async () => {
+				const last = this.journal.transactions[this.journal.transactions.length - 1];
+				if (last === undefined) {
+					new Notice('Nothing to undo');
+					return;
+				}
+				await this.revertTransaction(last);
+			}
+		});
+
+		/* Lists recorded operations so any one of them can be reverted */
+		this.addCommand({
+			id: 'show-history',
+			name: 'Show operation history',
+			callback: () => {
+				new HistoryModal(this.app, this.journal.transactions, (tx) => this.revertTransaction(tx)).open();
+			}
+		});
+
+		/* These commands find edges whose values were removed from the notes since */
+		this.addCommand({
+			id: 'refresh-canvas-highlight-stale',
+			name: 'Refresh canvas from notes: highlight stale edges',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+				if (activeView?.file?.extension !== 'canvas') return false;
+				if (!checking) this.refreshCanvasFromNotes(activeView, false);
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'refresh-canvas-remove-stale',
+			name: 'Refresh canvas from notes: remove stale edges',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+				if (activeView?.file?.extension !== 'canvas') return false;
+				if (!checking) this.refreshCanvasFromNotes(activeView, true);
+				return true;
+			}
+		});
+
+		/* Lists the canvases and edges that produced the active note's property values */
+		this.addCommand({
+			id: 'show-value-provenance',
+			name: 'Where did this value come from?',
+			callback: () => {
+				this.showProvenance();
 			}
 		});
 
@@ -196,6 +373,68 @@ export default class SemanticCanvasPlugin extends Plugin {
 		// 	}
 		// })
 
+		/* This command rearranges the nodes of the active canvas with the chosen layout */
+		this.addCommand({
+			id: 'relayout-canvas',
+			name: 'Re-layout canvas',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+				if (activeView?.file?.extension !== 'canvas') return false;
+				if (!checking) this.relayoutCanvas(activeView.file);
+				return true;
+			}
+		});
+
+		/* These commands map a canvas's x & y positions onto number or date properties */
+		this.addCommand({
+			id: 'define-canvas-axes',
+			name: 'Define axes for canvas',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+				if (activeView?.file?.extension !== 'canvas') return false;
+				const file = activeView.file;
+				if (!checking) new AxesModal(this.app, `Axes for ${file.basename}`, this.canvasAxes[file.path] ?? {}, async (axes) => {
+					if (axes.x === undefined && axes.y === undefined) delete this.canvasAxes[file.path];
+					else this.canvasAxes[file.path] = axes;
+					await this.savePluginData();
+				}).open();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'position-notes-on-axes',
+			name: 'Position notes on canvas axes',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+				if (activeView?.file?.extension !== 'canvas' || this.canvasAxes[activeView.file.path] === undefined) return false;
+				if (!checking) this.positionNotesOnAxes(activeView.file);
+				return true;
+			}
+		});
+
+		/* These commands make a canvas's groups the columns of a kanban board for one property */
+		this.addCommand({
+			id: 'toggle-kanban-mode',
+			name: 'Toggle kanban mode for canvas',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+				if (activeView?.file?.extension !== 'canvas') return false;
+				if (!checking) this.toggleKanbanMode(activeView.file);
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'build-kanban-canvas',
+			name: 'Build kanban canvas',
+			callback: () => {
+				new ChoiceModal(this.app, 'Choose the property for the columns...', this.scalarPropertyKeys(), key => key, key => {
+					this.buildKanban(key);
+				}).open();
+			}
+		});
+
 		/* This command will create a canvas from a note*/
 		this.addCommand({
 			id: 'create-canvas-from-note',
@@ -205,6 +444,117 @@ export default class SemanticCanvasPlugin extends Plugin {
 			}
 		});
 
+		/* This command will create a canvas from a note's typed-link neighbourhood, several hops deep */
+		this.addCommand({
+			id: 'create-neighbourhood-canvas',
+			name: 'Create neighbourhood canvas',
+			callback: () => {
+				new NeighbourhoodModal(this.app, this.app.workspace.getActiveFile(), (options) => this.createNeighbourhoodCanvas(options)).open();
+			}
+		});
+
+		/* These commands will create a canvas from a whole set of notes and the relations among them */
+		this.addCommand({
+			id: 'create-canvas-from-folder',
+			name: 'Create semantic canvas from folder',
+			callback: () => {
+				const folders = this.app.vault.getAllLoadedFiles().filter(file => file instanceof TFolder) as TFolder[];
+				new ChoiceModal(this.app, 'Choose a folder...', folders, folder => folder.path, folder => {
+					this.createCanvasFromNotes(notesInFolder(folder), folder.isRoot() ? this.app.vault.getName() : folder.name, folder.path);
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'create-canvas-from-tag',
+			name: 'Create semantic canvas from tag',
+			callback: () => {
+				new ChoiceModal(this.app, 'Choose a tag...', allTags(this.app), tag => tag, tag => {
+					this.createCanvasFromNotes(notesWithTag(this.app, tag), tag.substring(1).replace(/\//g, '-'), '');
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'create-canvas-from-saved-search',
+			name: 'Create semantic canvas from saved search',
+			callback: () => {
+				const searches = savedSearches(this.app);
+				if (searches.length === 0) {
+					new Notice('No saved searches found. Bookmark a search first.');
+					return;
+				}
+				new ChoiceModal(this.app, 'Choose a saved search...', searches, search => `${search.title} (${search.query})`, async search => {
+					let notes: TFile[];
+					try {
+						notes = await notesMatchingSearch(this.app, search.query);
+					} catch (e) {
+						new Notice('Aborted: ' + e.message);
+						return;
+					}
+					this.createCanvasFromNotes(notes, search.title.replace(/[\\/:*?"<>|#^[\]]/g, '-'), '');
+				}).open();
+			}
+		});
+
+		/* This command will write a canvas's, a folder's or the vault's relations as RDF */
+		this.addCommand({
+			id: 'export-semantic-graph',
+			name: 'Export semantic graph (Turtle & JSON-LD)',
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				const failed = (e: Error) => new Notice('Could not export the semantic graph. ' + e.message);
+				const sources: Array<{ text: string, export: () => void }> = [];
+				if (activeFile?.extension === 'canvas') {
+					sources.push({ text: `This canvas (${activeFile.basename})`, export: () => this.exportCanvasGraph(activeFile).catch(failed) });
+				}
+				sources.push({
+					text: 'A folder...', export: () => {
+						const folders = this.app.vault.getAllLoadedFiles().filter(file => file instanceof TFolder) as TFolder[];
+						new ChoiceModal(this.app, 'Choose a folder...', folders, folder => folder.path, folder => {
+							this.exportSemanticGraph(this.statementsForNotes(notesInFolder(folder)), folder, folder.isRoot() ? this.app.vault.getName() : folder.name).catch(failed);
+						}).open();
+					}
+				});
+				sources.push({
+					text: 'The whole vault', export: () => {
+						this.exportSemanticGraph(this.statementsForNotes(this.app.vault.getMarkdownFiles()), this.app.vault.getRoot(), this.app.vault.getName()).catch(failed);
+					}
+				});
+				new ChoiceModal(this.app, 'Export the semantic graph of...', sources, source => source.text, source => source.export()).open();
+			}
+		});
+
+		/* This command will draw the active canvas's relations for tools outside Obsidian */
+		this.addCommand({
+			id: 'export-canvas-diagram',
+			name: 'Export canvas as diagram (Mermaid, DOT & GraphML)',
+			checkCallback: (checking: boolean) => {
+				const canvasFile = this.app.workspace.getActiveFile();
+				if (canvasFile?.extension !== 'canvas') return false;
+				if (checking) return true;
+				const failed = (e: Error) => new Notice('Could not export the diagram. ' + e.message);
+				const formats: Array<{ text: string, export: () => void }> = [
+					{
+						text: 'Mermaid, into a note...', export: () => {
+							new ChoiceModal(this.app, 'Choose a note...', this.app.vault.getMarkdownFiles(), note => note.path, note => this.insertCanvasDiagram(canvasFile, note).catch(failed)).open();
+						}
+					},
+					{
+						text: 'Mermaid, to the clipboard', export: () => {
+							this.diagramOf(canvasFile)
+								.then(diagram => navigator.clipboard.writeText(toMermaid(diagram)))
+								.then(() => new Notice(`Copied the diagram of ${canvasFile.basename}`))
+								.catch(failed);
+						}
+					},
+					{ text: 'Graphviz DOT file', export: () => this.exportCanvasDiagram(canvasFile, 'dot').catch(failed) },
+					{ text: 'GraphML file', export: () => this.exportCanvasDiagram(canvasFile, 'graphml').catch(failed) }
+				];
+				new ChoiceModal(this.app, 'Export the diagram as...', formats, format => format.text, format => format.export()).open();
+			}
+		});
+
 		this.addSettingTab(new SemanticCanvasSettingsTab(this.app, this));
 
 		/**
@@ -213,63 +563,105 @@ export default class SemanticCanvasPlugin extends Plugin {
 		this.registerEvent(
 			//@ts-expect-error - it works, despite TypeScript not seeing the 'canvas:' methods
 			this.app.workspace.on("canvas:edge-menu", (menu: Menu, edge: any) => {
+				if (edge.to.node.getData?.().type === 'group') this.addGroupEdgeMenuItems(menu, edge);
 				if (edge.label === '' || edge.toLineEnd === null || edge.from.node.filePath === undefined) return;
 				const isBidirectional = edge.fromLineEnd !== null && edge.to.node.filePath !== undefined;
+				/* A label like `due:date` writes a single value into the `due` key */
+				const { key, type } = resolvePropertyType(this.app, edge.label);
+				/* A label with an inverse relation writes the inverse key into the target note */
+				const inverseLabel = edge.to.node.filePath !== undefined ? parseInverseRelations(this.settings.inverseRelations).get(key) : undefined;
+				const touchesBoth = isBidirectional || inverseLabel !== undefined;
+				const sourceAsWikiLink = "[[" + edge.from.node.filePath.split('/').pop().substring(0, edge.from.node.filePath.split('/').pop().length - 3) + "]]";
 				menu.addSeparator();
 				menu.addItem((item: any) => {
-					item.setTitle(isBidirectional ? "Remove property from both notes" : "Remove property from source note")
+					item.setTitle(touchesBoth ? "Remove property from both notes" : "Remove property from source note")
 						.setIcon("list-minus")
-						.onClick(() => {
+						.onClick(async () => {
 							const file = this.app.vault.getFileByPath(edge.from.node.filePath);
 							if (file === null) return;
-							this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-								frontmatter[edge.label] = undefined;
+							const canvasPath = this.app.workspace.getActiveFile()?.path ?? '';
+							const tx = this.journal.begin(`Remove "${key}" via edge menu`);
+							await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+								this.journal.captureFrontmatter(tx, file.path, frontmatter, key);
+								this.clearOwnedValues(frontmatter, canvasPath, file.path, key);
 							})
 
-							//supporting bi-directionally
-							if (isBidirectional) {
+							//supporting bi-directionally & inverse relations
+							if (touchesBoth) {
 								const otherFile = this.app.vault.getFileByPath(edge.to.node.filePath);
-								if (otherFile === null) return;
-								this.app.fileManager.processFrontMatter(otherFile, (frontmatter) => {
-									frontmatter[edge.label] = undefined;
-								})
+								if (otherFile !== null) {
+									await this.app.fileManager.processFrontMatter(otherFile, (frontmatter) => {
+										if (inverseLabel === undefined) {
+											this.journal.captureFrontmatter(tx, otherFile.path, frontmatter, key);
+											this.clearOwnedValues(frontmatter, canvasPath, otherFile.path, key);
+											return;
+										}
+										/* only take this note out of the inverse key, other values stay */
+										if (!frontmatter.hasOwnProperty(inverseLabel)) return;
+										this.journal.captureFrontmatter(tx, otherFile.path, frontmatter, inverseLabel);
+										const remaining = (Array.isArray(frontmatter[inverseLabel]) ? frontmatter[inverseLabel] : [frontmatter[inverseLabel]]).filter((val: unknown) => val !== sourceAsWikiLink);
+										if (remaining.length > 0) frontmatter[inverseLabel] = remaining;
+										else delete frontmatter[inverseLabel];
+									})
+								}
 							}
-							if (isBidirectional) new Notice(`Successfully removed prop in 2 files`)
-							if (!isBidirectional) new Notice(`Successfully removed prop in 1 file`)
+							await this.commitTransaction(tx);
+							await this.savePluginData();
+							if (touchesBoth) new Notice(`Successfully removed prop in 2 files`)
+							if (!touchesBoth) new Notice(`Successfully removed prop in 1 file`)
 						})
 				})
 				menu.addItem((item: any) => {
-					item.setTitle(isBidirectional ? "Update property in both notes" : "Update property in source note")
+					item.setTitle(touchesBoth ? "Update property in both notes" : "Update property in source note")
 						.setIcon("list-restart")
-						.onClick(() => {
+						.onClick(async () => {
 							let toVal = edge.to.node.text;
 							if (toVal === undefined) {
 								const filenameAsWikiLink = "[[" + edge.to.node.filePath.split('/').pop()!.substring(0, edge.to.node.filePath.split('/').pop()!.length - 3) + "]]";
 								toVal = filenameAsWikiLink;
 							}
 
+							if (type !== undefined) {
+								const parsed = parseScalar(toVal, type);
+								if (parsed === undefined) {
+									new Notice(`Aborted: "${toVal}" is not a ${type}`);
+									return;
+								}
+								toVal = parsed;
+							}
+
 							const file = this.app.vault.getFileByPath(edge.from.node.filePath);
 							if (file === null) return;
-							this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-								frontmatter[edge.label] = toVal;
+							const tx = this.journal.begin(`Update "${key}" via edge menu`);
+							await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+								this.journal.captureFrontmatter(tx, file.path, frontmatter, key);
+								frontmatter[key] = toVal;
 							})
 
-							//supporting bi-directionally
-							if (isBidirectional) {
+							//supporting bi-directionally & inverse relations
+							if (touchesBoth) {
 								let otherToVal = edge.from.node.text;
-								if (otherToVal === undefined) {
-									const filenameAsWikiLink = "[[" + edge.from.node.filePath.split('/').pop()!.substring(0, edge.from.node.filePath.split('/').pop()!.length - 3) + "]]";
-									otherToVal = filenameAsWikiLink;
-								}
+								if (otherToVal === undefined) otherToVal = sourceAsWikiLink;
 								const otherFile = this.app.vault.getFileByPath(edge.to.node.filePath);
-								if (otherFile === null) return;
-								this.app.fileManager.processFrontMatter(otherFile, (frontmatter) => {
-									frontmatter[edge.label] = otherToVal;
-								})
+								if (otherFile !== null) {
+									await this.app.fileManager.processFrontMatter(otherFile, (frontmatter) => {
+										if (inverseLabel === undefined) {
+											this.journal.captureFrontmatter(tx, otherFile.path, frontmatter, key);
+											frontmatter[key] = type !== undefined ? parseScalar(otherToVal, type) ?? otherToVal : otherToVal;
+											return;
+										}
+										/* add this note to the inverse key without clobbering its other values */
+										this.journal.captureFrontmatter(tx, otherFile.path, frontmatter, inverseLabel);
+										const existing = frontmatter.hasOwnProperty(inverseLabel) ? (Array.isArray(frontmatter[inverseLabel]) ? frontmatter[inverseLabel] : [frontmatter[inverseLabel]]) : [];
+										if (!existing.includes(sourceAsWikiLink)) existing.push(sourceAsWikiLink);
+										frontmatter[inverseLabel] = existing;
+									})
+								}
 							}
+							await this.commitTransaction(tx);
 
-							if (isBidirectional) new Notice(`Successfully set 2 props in 2 files`)
-							if (!isBidirectional) new Notice(`Successfully set 1 prop in 1 file`)
+							if (touchesBoth) new Notice(`Successfully set 2 props in 2 files`)
+							if (!touchesBoth) new Notice(`Successfully set 1 prop in 1 file`)
 						})
 				})
 			})
@@ -296,7 +688,7 @@ export default class SemanticCanvasPlugin extends Plugin {
 									new Notice('Aborted: Active view is not a canvas');
 									return;
 								}
-								this.addNodeDataAtLocation(activeView, prop[key], key, third.to.node.x, third.to.node.y, third.from.node);
+								this.addNodeDataAtLocation(activeView, prop[key], this.edgeLabelFor(edge.file.path, key), third.to.node.x, third.to.node.y, third.from.node);
 							})
 					})
 				})
@@ -342,7 +734,7 @@ export default class SemanticCanvasPlugin extends Plugin {
 						.onClick(() => {
 							const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
 							if (!isValidActiveView(activeView)) return;
-							this.pushCanvasDataToNotes(false, activeView!.file!, node.file.path);
+							this.pushCanvasDataToNotes(PushMode.Append, activeView!.file!, node.file.path);
 						});
 				})
 				menu.addItem((item: any) => {
@@ -351,7 +743,16 @@ export default class SemanticCanvasPlugin extends Plugin {
 						.onClick(() => {
 							const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
 							if (!isValidActiveView(activeView)) return;
-							this.pushCanvasDataToNotes(true, activeView!.file!, node.file.path);
+							this.pushCanvasDataToNotes(PushMode.Overwrite, activeView!.file!, node.file.path);
+						});
+				})
+				menu.addItem((item: any) => {
+					item.setTitle('Mirror canvas to properties in note')
+						.setIcon('list-checks')
+						.onClick(() => {
+							const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+							if (!isValidActiveView(activeView)) return;
+							this.pushCanvasDataToNotes(PushMode.Mirror, activeView!.file!, node.file.path);
 						});
 				})
 				function isValidActiveView(activeView: TextFileView | null): boolean {
@@ -378,7 +779,17 @@ export default class SemanticCanvasPlugin extends Plugin {
 				/* If visible window is Canvas, then we're in a right-click on node menu */
 				const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
 
-				if (file instanceof TFolder || file === undefined) return;
+				if (file instanceof TFolder) {
+					menu.addItem((item) => {
+						item.setTitle('Create semantic canvas from folder')
+							.setIcon('square-plus')
+							.onClick(() => {
+								this.createCanvasFromNotes(notesInFolder(file), file.isRoot() ? this.app.vault.getName() : file.name, file.path);
+							});
+					});
+					return;
+				}
+				if (file === undefined) return;
 				/* If Markdown file offer to create canvas */
 				if ((<TFile>file).extension === 'md' && activeView?.file?.extension !== 'canvas') {
 					menu.addItem((item) => {
@@ -388,6 +799,13 @@ export default class SemanticCanvasPlugin extends Plugin {
 								this.createCanvasFromNote(file as TFile);
 							});
 					});
+					menu.addItem((item) => {
+						item.setTitle('Create neighbourhood canvas based on note')
+							.setIcon('network')
+							.onClick(() => {
+								new NeighbourhoodModal(this.app, file as TFile, (options) => this.createNeighbourhoodCanvas(options)).open();
+							});
+					});
 				}
 
 				/* If Canvas offer to update notes */
@@ -396,14 +814,28 @@ export default class SemanticCanvasPlugin extends Plugin {
 						item.setTitle('Append note properties based on canvas')
 							.setIcon('list-plus')
 							.onClick(() => {
-								this.pushCanvasDataToNotes(false, file as TFile);
+								this.pushCanvasDataToNotes(PushMode.Append, file as TFile);
 							});
 					});
 					menu.addItem((item) => {
 						item.setTitle('Overwrite note properties based on canvas')
 							.setIcon('list-restart')
 							.onClick(() => {
-								this.pushCanvasDataToNotes(true, file as TFile);
+								this.pushCanvasDataToNotes(PushMode.Overwrite, file as TFile);
+							});
+					});
+					menu.addItem((item) => {
+						item.setTitle('Mirror canvas to note properties')
+							.setIcon('list-checks')
+							.onClick(() => {
+								this.pushCanvasDataToNotes(PushMode.Mirror, file as TFile);
+							});
+					});
+					menu.addItem((item) => {
+						item.setTitle('Re-layout canvas')
+							.setIcon('layout-dashboard')
+							.onClick(() => {
+								this.relayoutCanvas(file as TFile);
 							});
 					});
 					/* and offer to update Canvas with current note */
@@ -424,6 +856,38 @@ export default class SemanticCanvasPlugin extends Plugin {
 								this.pullNotePropertiesToCanvas(activeView, nodes, false);
 							});
 					});
+					menu.addItem((item) => {
+						item.setTitle('Highlight edges no longer backed by note properties')
+							.setIcon('paintbrush')
+							.onClick(() => {
+								const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+								if (activeView === null) {
+									new Notice('Aborted: Active view was null');
+									return;
+								}
+								if (activeView?.file?.extension !== 'canvas') {
+									new Notice('Aborted: Active view is not a canvas');
+									return;
+								}
+								this.refreshCanvasFromNotes(activeView, false);
+							});
+					});
+					menu.addItem((item) => {
+						item.setTitle('Remove edges no longer backed by note properties')
+							.setIcon('unlink')
+							.onClick(() => {
+								const activeView = this.app.workspace.getActiveViewOfType(TextFileView);
+								if (activeView === null) {
+									new Notice('Aborted: Active view was null');
+									return;
+								}
+								if (activeView?.file?.extension !== 'canvas') {
+									new Notice('Aborted: Active view is not a canvas');
+									return;
+								}
+								this.refreshCanvasFromNotes(activeView, true);
+							});
+					});
 					menu.addItem((item) => {
 						item.setTitle('Show all connections between notes on this canvas')
 							.setIcon('git-compare-arrows')
@@ -464,14 +928,16 @@ export default class SemanticCanvasPlugin extends Plugin {
 
 		const that = this;
 		const canvasContents = buildCanvasContents(file, listTypeProps);
+		layoutCanvas(canvasContents, this.settings.layoutAlgorithm);
+		this.colorFromNotes(canvasContents);
 
-		const savePath = createSavePathBasedOnSettings(file, that);
+		const savePath = this.getNewCanvasPath(name, file.parent?.path ?? '/');
 		const createdCanvas = await this.app.vault.create(savePath, JSON.stringify(canvasContents));
 		this.app.workspace.getLeaf().openFile(createdCanvas);
 
 		function buildCanvasContents(file: TFile, propsMap: Array<{ [index: string]: Array<string> }>): CanvasData {
 			const thisFileNodeData: CanvasFileData = {
-				color: "1",
+				color: that.rootColor(),
 				x: 0,
 				y: 0,
 				id: '0',
@@ -498,7 +964,7 @@ export default class SemanticCanvasPlugin extends Plugin {
 				const key = Object.keys(propObj)[0];
 				const valArr = propObj[key]; //will be array
 				if (!Array.isArray(valArr)) throw new Error("A non-array was passed into buildCanvasContents");
-				addEdge(key);
+				addEdge(that.edgeLabelFor(file.path, key));
 				if (SemanticCanvasPlugin.isGroup(valArr)) return addGroup(key, valArr);
 				/* If it's not a group, the array is of size 1 */
 				const val = valArr[0];
@@ -598,43 +1064,363 @@ export default class SemanticCanvasPlugin extends Plugin {
 				canvasContents.nodes.push(newGroup);
 			}
 		}
+	}
 
-		function createSavePathBasedOnSettings(file: TFile, that: SemanticCanvasPlugin): string {
-			let location = '';
-			switch (that.settings.newFileLocation) {
-				case Location.SameFolder:
-					location = file.parent!.path;
-					break;
-				case Location.SpecifiedFolder:
-					const fileLocationExists = that.app.vault.getAbstractFileByPath(that.settings.customFileLocation) !== null;
-					if (fileLocationExists) {
-						location = that.settings.customFileLocation;
-					} else {
-						new Notice(
-							`folder ${that.settings.customFileLocation} does not exist, creating in root folder`
-						);
-					}
-			}
-			let canvasPath = name + '.canvas';
-			if (location !== '') canvasPath = location + "/" + canvasPath;
-			/* If the file already exists, keep appending "(new)" until it's unique */
-			while (that.app.vault.getAbstractFileByPath(canvasPath) !== null) {
-				canvasPath = canvasPath.substring(0, canvasPath.length - 7) + " (new).canvas"
+	/**
+	 * Creates a canvas holding every note and value reachable from the starting note
+	 * through the chosen keys, up to the chosen depth.
+	 */
+	async createNeighbourhoodCanvas(options: NeighbourhoodOptions) {
+		new Notice('Creating neighbourhood canvas for ' + options.start.basename);
+		const graph = this.buildNeighbourhoodGraph(options);
+		const savePath = this.getNewCanvasPath(options.start.basename + ' neighbourhood', options.start.parent?.path ?? '/');
+		const canvasContents = graph.toCanvasData(this.rootColor());
+		layoutCanvas(canvasContents, this.settings.layoutAlgorithm);
+		this.colorFromNotes(canvasContents);
+		const createdCanvas = await this.app.vault.create(savePath, JSON.stringify(canvasContents));
+		this.app.workspace.getLeaf().openFile(createdCanvas);
+	}
+
+	/**
+	 * Walks list properties breadth-first from the starting note. Notes and values reached
+	 * more than once become a single node with several incoming edges.
+	 */
+	buildNeighbourhoodGraph(options: NeighbourhoodOptions): SemanticGraph {
+		const graph = new SemanticGraph();
+		const follows = (key: string) => options.keys.length === 0 || options.keys.some(k => k.toUpperCase() === key.toUpperCase());
+		const incoming = options.includeIncoming ? this.buildIncomingIndex(follows) : new Map<string, Array<{ source: TFile, key: string }>>();
+
+		const visited = new Set<string>([options.start.path]);
+		graph.addNode('file', options.start.path, 0);
+		let frontier = [options.start];
+
+		for (let depth = 0; depth < options.depth; depth++) {
+			const next: TFile[] = [];
+			const visit = (file: TFile) => {
+				if (visited.has(file.path) || file.extension !== 'md') return;
+				visited.add(file.path);
+				next.push(file);
 			}
-			return canvasPath
+			frontier.forEach(file => {
+				const fromKey = graph.addNode('file', file.path, depth);
+				this.getNoteData(file.path).forEach(prop => {
+					const key = Object.keys(prop)[0];
+					if (!follows(key)) return;
+					prop[key].forEach(val => {
+						if (val === null || val === undefined) return;
+						const resolved = this.resolvePropValue(String(val), file.path);
+						const toKey = graph.addNode(resolved.type, resolved.value, depth + 1);
+						graph.addEdge(fromKey, toKey, this.edgeLabelFor(file.path, key));
+						if (resolved.file) visit(resolved.file);
+					});
+				});
+				incoming.get(file.path)?.forEach(reference => {
+					const sourceKey = graph.addNode('file', reference.source.path, depth + 1);
+					graph.addEdge(sourceKey, fromKey, reference.key);
+					visit(reference.source);
+				});
+			});
+			frontier = next;
 		}
+
+		return graph;
 	}
 
 	/**
-	 * Adds or updates backlinks in a markdown file
-	 * @param file The file to add backlinks to
-	 * @param backlinks Array of backlinks to add
+	 * Maps each note path to the notes whose list properties link to it
+	 * @param follows which keys count as relations
 	 */
-	async updateBacklinksInFile(file: TFile, backlinks: string[]) {
-		if (!this.settings.useBacklinks || backlinks.length === 0) return;
-		
+	buildIncomingIndex(follows: (key: string) => boolean): Map<string, Array<{ source: TFile, key: string }>> {
+		const index = new Map<string, Array<{ source: TFile, key: string }>>();
+		this.app.vault.getMarkdownFiles().forEach(source => {
+			this.getNoteData(source.path).forEach(prop => {
+				const key = Object.keys(prop)[0];
+				if (!follows(key)) return;
+				prop[key].forEach(val => {
+					if (typeof val !== 'string') return;
+					const resolved = this.resolvePropValue(val, source.path);
+					if (resolved.file === undefined) return;
+					index.set(resolved.file.path, [...(index.get(resolved.file.path) ?? []), { source: source, key: key }]);
+				});
+			});
+		});
+		return index;
+	}
+
+	/**
+	 * Creates a canvas with every note of the set and all the list-property relations among them
+	 * @param name the canvas name, without extension
+	 * @param sameFolder the folder to use when new canvases go next to the current file
+	 */
+	async createCanvasFromNotes(notes: TFile[], name: string, sameFolder: string) {
+		if (notes.length === 0) {
+			new Notice('Aborted: No matching notes found');
+			return;
+		}
+		new Notice(`Creating canvas for ${notes.length} note(s)`);
+		const createdCanvas = await this.writeCanvasForNotes(notes, this.getNewCanvasPath(name, sameFolder));
+		this.app.workspace.getLeaf().openFile(createdCanvas);
+	}
+
+	/**
+	 * Lays a set of notes out on a new canvas at the given path, on the default axes if there are any
+	 */
+	async writeCanvasForNotes(notes: TFile[], savePath: string): Promise<TFile> {
+		const graph = this.buildGraphForNotes(notes);
+		const canvasContents = graph.toCanvasData();
+		layoutCanvas(canvasContents, this.settings.layoutAlgorithm);
+		this.colorFromNotes(canvasContents);
+		const axes = this.settings.defaultAxes;
+		if (axes.x !== undefined || axes.y !== undefined) {
+			this.placeOnAxes(canvasContents, axes);
+			this.canvasAxes[savePath] = JSON.parse(JSON.stringify(axes));
+			await this.savePluginData();
+		}
+		return await this.app.vault.create(savePath, JSON.stringify(canvasContents));
+	}
+
+	/**
+	 * Moves every note on a canvas to where its values put it along the canvas's axes & saves it
+	 */
+	async positionNotesOnAxes(file: TFile) {
+		const axes = this.canvasAxes[file.path];
+		if (axes === undefined) return;
+		let moved = 0;
+		const tx = this.journal.begin(`Position notes on axes of ${file.basename}`);
+		await this.app.vault.process(file, (data) => {
+			const canvasData = JSON.parse(data) as CanvasData;
+			moved = this.placeOnAxes(canvasData, axes);
+			if (moved === 0) return data;
+			this.journal.captureCanvas(tx, file.path, data);
+			return JSON.stringify(canvasData);
+		});
+		await this.commitTransaction(tx);
+		new Notice(`Positioned ${moved} note(s) on the axes of ${file.basename}`);
+	}
+
+	/**
+	 * Places file nodes by their notes' values. With only one axis, notes sharing a value are stacked
+	 * along the other instead of overlapping. Mutates the canvas data.
+	 * @returns how many nodes were placed
+	 */
+	placeOnAxes(canvasData: CanvasData, axes: CanvasAxes): number {
+		const before = new Map(canvasData.nodes.map(node => [node.id, node.x + ',' + node.y] as [string, string]));
+		const moved = positionByAxes(canvasData, axes, path => this.app.metadataCache.getCache(path)?.frontmatter ?? {});
+		if (axes.x === undefined || axes.y === undefined) {
+			avoidOverlaps(canvasData, canvasData.nodes.filter(node => before.get(node.id) !== node.x + ',' + node.y).map(node => node.id));
+		}
+		return moved;
+	}
+
+	/**
+	 * Builds the graph of a set of notes. Links between notes of the set become edges between them,
+	 * every other value (including links to notes outside the set) becomes a card or url node.
+	 * Values find notes of the set the way they find file nodes on a canvas, through `buildConnectionTargets`.
+	 */
+	buildGraphForNotes(notes: TFile[]): SemanticGraph {
+		const graph = new SemanticGraph();
+		const inSet = new Set(notes.map(note => note.path));
+		const targets = SemanticCanvasPlugin.buildConnectionTargets({
+			files: notes.map(note => ({ id: note.path, type: 'file' as const, file: note.path, x: 0, y: 0, width: 0, height: 0 }))
+		});
+		notes.forEach(note => graph.addNode('file', note.path, 0));
+		notes.forEach(note => {
+			const fromKey = graph.addNode('file', note.path, 0);
+			this.getNoteData(note.path).forEach(prop => {
+				const key = Object.keys(prop)[0];
+				prop[key].forEach(val => {
+					if (val === null || val === undefined) return;
+					const target = targets.find(target => target.content === String(val) || target.normalizedFileName === String(val));
+					const resolved = this.resolvePropValue(String(val), note.path);
+					/* links with an alias, a heading or a folder don't match a target, the metadata cache still finds their note */
+					const linkedPath = target?.id ?? (resolved.file !== undefined && inSet.has(resolved.file.path) ? resolved.file.path : undefined);
+					let toKey: string;
+					if (linkedPath !== undefined) {
+						toKey = graph.addNode('file', linkedPath, 0);
+					} else {
+						toKey = graph.addNode(resolved.type === 'file' ? 'card' : resolved.type, resolved.type === 'file' ? String(val) : resolved.value, 1);
+					}
+					graph.addEdge(fromKey, toKey, this.edgeLabelFor(note.path, key));
+				});
+			});
+		});
+		return graph;
+	}
+
+	/**
+	 * Exports the properties a canvas gives its notes, typed the way a push would write them
+	 */
+	async exportCanvasGraph(canvasFile: TFile) {
+		const map = await this.getCanvasMapFor(canvasFile);
+		const axes = this.canvasAxes[canvasFile.path] ?? {};
+		const fileNodes = mergeNoteProps((map.files ?? []).map(file => new FileNode(file, map, this.settings, this.app, axes)));
+		const statements: PropertyStatement[] = [];
+		fileNodes.filter(fileNode => fileNode.filePath.endsWith('.md')).forEach(fileNode => {
+			Object.keys(fileNode.propsOnCanvas).forEach(key => {
+				const type = fileNode.types[key];
+				const vals: Array<string | number | boolean | undefined> = fileNode.propsOnCanvas[key].map((val: string) => type === undefined ? val : parseScalar(val, type));
+				/* a single-valued key gets the first value that parses, like when it's pushed */
+				const kept = type === undefined ? vals : vals.filter(val => val !== undefined).slice(0, 1);
+				kept.forEach(val => {
+					if (val !== undefined) statements.push({ notePath: fileNode.filePath, key: key, value: val, type: type });
+				});
+			});
+		});
+		await this.exportSemanticGraph(statements, canvasFile.parent ?? this.app.vault.getRoot(), canvasFile.basename);
+	}
+
+	/**
+	 * The property values of a set of notes, leaving out ignored keys
+	 */
+	statementsForNotes(notes: TFile[]): PropertyStatement[] {
+		const statements: PropertyStatement[] = [];
+		notes.forEach(note => {
+			const frontmatter = this.app.metadataCache.getFileCache(note)?.frontmatter ?? {};
+			Object.keys(frontmatter).forEach(key => {
+				if (this.isExcludedKey(key)) return;
+				const val = frontmatter[key];
+				if (Array.isArray(val)) {
+					val.filter(isScalar).forEach(item => statements.push({ notePath: note.path, key: key, value: item }));
+				} else if (isScalar(val) && val !== '') {
+					statements.push({ notePath: note.path, key: key, value: val, type: registeredType(this.app, key) ?? inferScalarType(val) });
+				}
+			});
+		});
+		return statements;
+	}
+
+	/**
+	 * Writes property values as Turtle & JSON-LD files named after where they came from, replacing earlier exports
+	 * @param folder where the files go
+	 */
+	async exportSemanticGraph(statements: PropertyStatement[], folder: TFolder, name: string) {
+		const mappings = parseRdfMappings(this.settings.rdfMappings);
+		const triples = toTriples(statements, this.settings.rdfBaseIri, mappings,
+			(linkpath, fromPath) => this.app.metadataCache.getFirstLinkpathDest(linkpath, fromPath)?.path);
+		const basePath = folder.isRoot() ? name : `${folder.path}/${name}`;
+		const written = [
+			{ path: `${basePath}.ttl`, content: toTurtle(triples, this.settings.rdfBaseIri, mappings) },
+			{ path: `${basePath}.jsonld`, content: toJsonLd(triples, this.settings.rdfBaseIri, mappings) }
+		];
+		for (const file of written) await this.writeExportFile(file.path, file.content);
+		new Notice(`Exported ${triples.length} triple(s) to ${written.map(file => file.path).join(' and ')}`);
+	}
+
+	/**
+	 * The relations on a canvas, with file nodes as the wikilinks a push would write
+	 */
+	async diagramOf(canvasFile: TFile) {
+		return diagramOfCanvas(await this.getCanvasMapFor(canvasFile), canvasFile.path, vaultLookup(this.app));
+	}
+
+	/**
+	 * Writes a canvas's diagram next to the canvas, named after it, replacing an earlier export
+	 */
+	async exportCanvasDiagram(canvasFile: TFile, format: 'dot' | 'graphml') {
+		const diagram = await this.diagramOf(canvasFile);
+		const folder = canvasFile.parent ?? this.app.vault.getRoot();
+		const path = folder.isRoot() ? `${canvasFile.basename}.${format}` : `${folder.path}/${canvasFile.basename}.${format}`;
+		await this.writeExportFile(path, format === 'dot' ? toDot(diagram, canvasFile.basename) : toGraphMl(diagram));
+		new Notice(`Exported ${diagram.nodes.length} node(s) & ${diagram.edges.length} edge(s) to ${path}`);
+	}
+
+	/**
+	 * Puts a canvas's Mermaid diagram under its own heading in a note, replacing the diagram inserted before
+	 */
+	async insertCanvasDiagram(canvasFile: TFile, note: TFile) {
+		const mermaid = toMermaid(await this.diagramOf(canvasFile));
+		const heading = `## Diagram of ${canvasFile.basename}`;
+		const tx = this.journal.begin(`Insert diagram of ${canvasFile.basename} into ${note.basename}`);
+		await this.app.vault.process(note, (content) => {
+			this.journal.captureSection(tx, note.path, heading, content);
+			return replaceSection(content, heading, '\n```mermaid\n' + mermaid + '```\n');
+		});
+		await this.commitTransaction(tx);
+		new Notice(`Inserted the diagram of ${canvasFile.basename} into ${note.basename}`);
+	}
+
+	/**
+	 * Creates an exported file, or overwrites it when it's there from an earlier export
+	 */
+	async writeExportFile(path: string, content: string) {
+		const existing = this.app.vault.getFileByPath(path);
+		if (existing !== null) await this.app.vault.modify(existing, content);
+		else await this.app.vault.create(path, content);
+	}
+
+	/**
+	 * The color generated canvases give their starting note, unless that color means a value
+	 */
+	rootColor(): string | undefined {
+		return parseColorMappings(this.settings.colorMappings).nodeValues.has('1') ? undefined : '1';
+	}
+
+	/**
+	 * Colors a generated canvas's notes and edges by what the color mapping setting says the colors mean
+	 */
+	colorFromNotes(canvasData: CanvasData) {
+		colorCanvas(canvasData, parseColorMappings(this.settings.colorMappings), path => this.app.metadataCache.getCache(path)?.frontmatter ?? {});
+	}
+
+	/**
+	 * Works out what kind of canvas node a property value should become.
+	 * Wikilinks that don't resolve to a file fall back to cards.
+	 * @param sourcePath the note holding the value, for resolving relative links
+	 */
+	resolvePropValue(val: string, sourcePath: string): { type: 'file' | 'card' | 'url', value: string, file?: TFile } {
+		if (SemanticCanvasPlugin.isFile(val)) {
+			const linkpath = val.substring(2, val.length - 2).split('|')[0].split('#')[0];
+			const foundFile = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+			if (foundFile !== null) return { type: 'file', value: foundFile.path, file: foundFile };
+			return { type: 'card', value: val };
+		}
+		if (SemanticCanvasPlugin.isURL(val)) return { type: 'url', value: val };
+		return { type: 'card', value: val };
+	}
+
+	/**
+	 * Picks a unique path for a new canvas based on the "Default location" setting
+	 * @param name the canvas name, without extension
+	 * @param sameFolder the folder to use when the setting is "Same folder as current file"
+	 */
+	getNewCanvasPath(name: string, sameFolder: string): string {
+		let location = '';
+		switch (this.settings.newFileLocation) {
+			case Location.SameFolder:
+				location = sameFolder === '/' ? '' : sameFolder;
+				break;
+			case Location.SpecifiedFolder: {
+				const fileLocationExists = this.app.vault.getAbstractFileByPath(this.settings.customFileLocation) !== null;
+				if (fileLocationExists) {
+					location = this.settings.customFileLocation;
+				} else {
+					new Notice(
+						`folder ${this.settings.customFileLocation} does not exist, creating in root folder`
+					);
+				}
+			}
+		}
+		let canvasPath = name + '.canvas';
+		if (location !== '') canvasPath = location + "/" + canvasPath;
+		/* If the file already exists, keep appending "(new)" until it's unique */
+		while (this.app.vault.getAbstractFileByPath(canvasPath) !== null) {
+			canvasPath = canvasPath.substring(0, canvasPath.length - 7) + " (new).canvas"
+		}
+		return canvasPath
+	}
+
+	/**
+	 * Adds or updates backlinks in a markdown file
+	 * @param file The file to add backlinks to
+	 * @param backlinks Array of backlinks to add
+	 * @param tx The journal transaction to record the previous section in
+	 */
+	async updateBacklinksInFile(file: TFile, backlinks: string[], tx?: JournalTransaction) {
+		if (!this.settings.useBacklinks || backlinks.length === 0) return;
+		
 		const content = await this.app.vault.read(file);
 		const heading = this.settings.backlinksHeading;
+		this.journal.captureSection(tx, file.path, heading, content);
 		const headingRegex = new RegExp(`^${heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'gm');
 		
 		// Remove duplicates and format backlinks
@@ -655,12 +1441,12 @@ export default class SemanticCanvasPlugin extends Plugin {
 		
 		if (headingMatch) {
 			// Heading exists, replace the section
-			const headingIndex = headingMatch.index!;
+			const headingIndex = headingMatch.index ?? 0;
 			const afterHeading = content.substring(headingIndex + headingMatch[0].length);
 			
 			// Find the next heading or end of file
 			const nextHeadingMatch = afterHeading.match(/^#+\s/m);
-			const sectionEndIndex = nextHeadingMatch ? nextHeadingMatch.index! : afterHeading.length;
+			const sectionEndIndex = nextHeadingMatch?.index ?? afterHeading.length;
 			
 			// Build the new content
 			newContent = content.substring(0, headingIndex) +
@@ -676,21 +1462,559 @@ export default class SemanticCanvasPlugin extends Plugin {
 		await this.app.vault.modify(file, newContent);
 	}
 
+	/**
+	 * Points everything that referred to a renamed or moved file at its new path: file nodes on canvases,
+	 * links in note properties, managed backlink lines and the plugin's own records.
+	 * Anything Obsidian already updated is left as is.
+	 */
+	async handleRename(file: TAbstractFile, oldPath: string) {
+		/* moving a folder moves everything inside it */
+		const moves: Array<{ file: TFile, oldPath: string }> = [];
+		if (file instanceof TFile) moves.push({ file: file, oldPath: oldPath });
+		if (file instanceof TFolder) {
+			Vault.recurseChildren(file, child => {
+				if (child instanceof TFile) moves.push({ file: child, oldPath: oldPath + child.path.substring(file.path.length) });
+			});
+		}
+		if (moves.length === 0) return;
+		moves.forEach(move => this.renameInPluginData(move.oldPath, move.file.path));
+
+		const tx = this.journal.begin(`Update references to ${file.name}`);
+		let nodeCount = 0;
+		let valueCount = 0;
+		let backlinkCount = 0;
+
+		for (const canvas of this.app.vault.getFiles().filter(canvas => canvas.extension === 'canvas')) {
+			const raw = await this.app.vault.cachedRead(canvas);
+			if (!moves.some(move => raw.includes(JSON.stringify(move.oldPath).slice(1, -1)))) continue;
+			await this.app.vault.process(canvas, (data) => {
+				const canvasData = SemanticCanvasPlugin.parseCanvasData(data);
+				if (canvasData === undefined) return data;
+				let changed = 0;
+				canvasData.nodes.forEach(node => {
+					if (node.type !== 'file') return;
+					const move = moves.find(move => move.oldPath === node.file);
+					if (move === undefined) return;
+					node.file = move.file.path;
+					changed = changed + 1;
+				});
+				if (changed === 0) return data;
+				nodeCount = nodeCount + changed;
+				this.journal.captureCanvas(tx, canvas.path, data);
+				return JSON.stringify(canvasData);
+			});
+		}
+
+		const movedNotes = moves.filter(move => move.file.extension === 'md');
+		for (const note of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(note);
+			const links = [...(cache?.links ?? []), ...(cache?.frontmatterLinks ?? [])];
+			if (!links.some(link => this.renamedLink(`[[${link.link}]]`, moves, note.path) !== undefined)) continue;
+
+			await this.app.fileManager.processFrontMatter(note, (frontmatter) => {
+				Object.keys(frontmatter).forEach(key => {
+					if (this.isExcludedKey(key)) return;
+					const vals = Array.isArray(frontmatter[key]) ? frontmatter[key] : [frontmatter[key]];
+					const renamed = vals.map((val: unknown) => typeof val === 'string' ? this.renamedLink(val, moves, note.path) : undefined);
+					if (!renamed.some((val: string | undefined) => val !== undefined)) return;
+					this.journal.captureFrontmatter(tx, note.path, frontmatter, key);
+					const updated = vals.map((val: unknown, index: number) => renamed[index] ?? val);
+					frontmatter[key] = Array.isArray(frontmatter[key]) ? updated : updated[0];
+					valueCount = valueCount + renamed.filter((val: string | undefined) => val !== undefined).length;
+				});
+			});
+
+			for (const move of movedNotes) {
+				const oldBasename = move.oldPath.substring(move.oldPath.lastIndexOf('/') + 1).replace(/\.md$/, '');
+				if (oldBasename === move.file.basename) continue;
+				if (await this.renameBacklink(note, oldBasename, move.file.basename, tx)) backlinkCount = backlinkCount + 1;
+			}
+		}
+
+		await this.commitTransaction(tx);
+		await this.savePluginData();
+		if (nodeCount + valueCount + backlinkCount > 0) {
+			new Notice(`Updated references to ${file.name}: ${nodeCount} canvas node(s), ${valueCount} property value(s), ${backlinkCount} backlink(s)`);
+		}
+	}
+
+	/**
+	 * Re-keys the plugin's records (edge snapshots, written values, live sync snapshots) from an old path to a new one
+	 */
+	renameInPluginData(oldPath: string, newPath: string) {
+		const moveKey = (record: { [path: string]: unknown }) => {
+			if (!record.hasOwnProperty(oldPath)) return;
+			record[newPath] = record[oldPath];
+			delete record[oldPath];
+		}
+		moveKey(this.edgeSnapshots);
+		moveKey(this.writtenProps);
+		moveKey(this.kanbanCanvases);
+		moveKey(this.canvasAxes);
+		const kanbanSnapshot = this.kanbanSnapshots.get(oldPath);
+		if (kanbanSnapshot !== undefined) {
+			this.kanbanSnapshots.set(newPath, kanbanSnapshot);
+			this.kanbanSnapshots.delete(oldPath);
+		}
+		Object.keys(this.edgeSnapshots).forEach(canvasPath => {
+			const snapshot = this.edgeSnapshots[canvasPath];
+			Object.keys(snapshot).forEach(id => {
+				if (snapshot[id].fromFile === oldPath) snapshot[id].fromFile = newPath;
+				if (snapshot[id].toFile === oldPath) snapshot[id].toFile = newPath;
+			});
+		});
+		const file = this.app.vault.getFileByPath(newPath);
+		Object.keys(this.writtenProps).forEach(canvasPath => {
+			const written = this.writtenProps[canvasPath];
+			moveKey(written);
+			if (file === null) return;
+			Object.keys(written).forEach(notePath => Object.keys(written[notePath]).forEach(key => {
+				const sources = written[notePath][key];
+				Object.keys(sources).forEach(val => {
+					const renamed = this.renamedLink(val, [{ file: file, oldPath: oldPath }], notePath);
+					if (renamed === undefined) return;
+					sources[renamed] = sources[val];
+					delete sources[val];
+				});
+			}));
+		});
+		const noteSnapshot = this.noteSnapshots.get(oldPath);
+		if (noteSnapshot !== undefined) {
+			this.noteSnapshots.set(newPath, noteSnapshot);
+			this.noteSnapshots.delete(oldPath);
+		}
+		this.journal.renamePath(oldPath, newPath);
+	}
+
+	/**
+	 * If a property value is a wikilink to one of the moved files' old names, the same link to its new name.
+	 * Links that still resolve to another file are left alone.
+	 * @param sourcePath the note holding the value
+	 * @returns `undefined` when the value doesn't refer to a moved file
+	 */
+	renamedLink(val: string, moves: Array<{ file: TFile, oldPath: string }>, sourcePath: string): string | undefined {
+		if (!SemanticCanvasPlugin.isFile(val)) return undefined;
+		const inner = val.substring(2, val.length - 2);
+		const linkpath = inner.split('|')[0].split('#')[0];
+		const rest = inner.substring(linkpath.length);
+		const move = moves.find(move => {
+			const withoutExtension = move.oldPath.replace(/\.md$/, '');
+			if (linkpath !== move.oldPath && linkpath !== withoutExtension && !withoutExtension.endsWith('/' + linkpath)) return false;
+			const resolved = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+			return resolved === null || resolved === move.file;
+		});
+		if (move === undefined) return undefined;
+		const renamed = '[[' + this.app.metadataCache.fileToLinktext(move.file, sourcePath) + rest + ']]';
+		return renamed === val ? undefined : renamed;
+	}
+
+	/**
+	 * Offers to remove a deleted note from the canvases it was on, along with the edges attached to it
+	 * and the backlinks other notes had to it
+	 */
+	async handleDelete(file: TFile) {
+		const records: Array<{ [path: string]: unknown }> = [this.edgeSnapshots, this.writtenProps,
+			...Object.keys(this.writtenProps).map(canvasPath => this.writtenProps[canvasPath]), this.kanbanCanvases, this.canvasAxes];
+		const recorded = records.filter(record => record.hasOwnProperty(file.path));
+		recorded.forEach(record => delete record[file.path]);
+		this.noteSnapshots.delete(file.path);
+		this.kanbanSnapshots.delete(file.path);
+		if (recorded.length > 0) await this.savePluginData();
+
+		const canvases: TFile[] = [];
+		for (const canvas of this.app.vault.getFiles().filter(canvas => canvas.extension === 'canvas')) {
+			const canvasData = SemanticCanvasPlugin.parseCanvasData(await this.app.vault.cachedRead(canvas));
+			if (canvasData?.nodes.some(node => node.type === 'file' && node.file === file.path)) canvases.push(canvas);
+		}
+		if (canvases.length === 0) return;
+
+		new ConfirmModal(this.app,
+			`${file.basename} was deleted`,
+			`It's still on ${canvases.length} canvas(es): ${canvases.map(canvas => canvas.basename).join(', ')}. Remove it from them, along with the edges attached to it and backlinks to it?`,
+			'Remove',
+			async () => {
+				const tx = this.journal.begin(`Clean up after deleting ${file.basename}`);
+				const connectedPaths = new Set<string>();
+				for (const canvas of canvases) {
+					await this.app.vault.process(canvas, (data) => {
+						const canvasData = SemanticCanvasPlugin.parseCanvasData(data);
+						if (canvasData === undefined) return data;
+						this.journal.captureCanvas(tx, canvas.path, data);
+						const goneIds = canvasData.nodes.filter(node => node.type === 'file' && node.file === file.path).map(node => node.id);
+						canvasData.edges.forEach(edge => {
+							if (!goneIds.includes(edge.fromNode) && !goneIds.includes(edge.toNode)) return;
+							const other = canvasData.nodes.find(node => node.id === (goneIds.includes(edge.fromNode) ? edge.toNode : edge.fromNode));
+							if (other?.type === 'file') connectedPaths.add(other.file);
+						});
+						canvasData.edges = canvasData.edges.filter(edge => !goneIds.includes(edge.fromNode) && !goneIds.includes(edge.toNode));
+						canvasData.nodes = canvasData.nodes.filter(node => !goneIds.includes(node.id));
+						return JSON.stringify(canvasData);
+					});
+				}
+				for (const path of connectedPaths) {
+					const note = this.app.vault.getFileByPath(path);
+					if (note !== null && note.extension === 'md') await this.removeBacklinkTo(note, file.basename, tx);
+				}
+				await this.commitTransaction(tx);
+				new Notice(`Removed ${file.basename} from ${canvases.length} canvas(es)`);
+			}).open();
+	}
+
+	/**
+	 * Compares a canvas's edges with its last snapshot and maintains backlinks for the
+	 * file-to-file edges added or removed since. A canvas seen for the first time is only recorded.
+	 * Edited cards & links are queued up to offer renaming their value in notes.
+	 * @param save `false` to leave saving the snapshot to the caller, like the sweep over every canvas at startup
+	 */
+	async reconcileCanvasEdges(file: TFile, save = true) {
+		let canvasData: RawCanvasObj | undefined;
+		try {
+			canvasData = await SemanticCanvasPlugin.getCanvasData(file);
+		} catch (e) {
+			return; //still being written, or not valid JSON
+		}
+		if (!canvasData) return;
+
+		const current = snapshotEdges(canvasData as CanvasData);
+		const previous = this.edgeSnapshots[file.path];
+		this.edgeSnapshots[file.path] = current;
+		if (previous === undefined) {
+			if (save) await this.savePluginData();
+			return;
+		}
+
+		const textChanges = diffNodeTexts(previous, current);
+		textChanges.forEach(change => this.queueValueRename(file.path, change));
+
+		const { added, removed, changed } = diffEdgeSnapshots(previous, current);
+		if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+			if (textChanges.length > 0 && save) await this.savePluginData();
+			return;
+		}
+
+		const tx = this.journal.begin(`Backlinks for edges on ${file.basename}`);
+		for (const edge of added) {
+			const fromFile = edge.fromFile !== undefined ? this.app.vault.getFileByPath(edge.fromFile) : null;
+			const toFile = edge.toFile !== undefined ? this.app.vault.getFileByPath(edge.toFile) : null;
+			if (fromFile && toFile) await this.addBacklinkBetweenFiles(fromFile, toFile, isBidirectional(edge), tx);
+		}
+		for (const edge of removed) {
+			const fromFile = edge.fromFile !== undefined ? this.app.vault.getFileByPath(edge.fromFile) : null;
+			const toFile = edge.toFile !== undefined ? this.app.vault.getFileByPath(edge.toFile) : null;
+			if (fromFile && toFile) await this.removeBacklinkBetweenFiles(fromFile, toFile, isBidirectional(edge), tx);
+		}
+		for (const change of changed) {
+			await this.applyEdgeChange(file.path, canvasData.nodes as AllCanvasNodeData[], current, change, tx);
+		}
+		await this.commitTransaction(tx);
+		if (save) await this.savePluginData();
+	}
+
+	/**
+	 * Collects edits to a card or link until it has gone unedited for a while, so typing
+	 * `In Progress` → `Doing` offers one rename rather than one per keystroke
+	 */
+	queueValueRename(canvasPath: string, change: NodeTextChange) {
+		const pending = this.pendingValueRenames.get(canvasPath) ?? new Map<string, NodeTextChange>();
+		const earlier = pending.get(change.nodeId);
+		pending.set(change.nodeId, { nodeId: change.nodeId, before: earlier?.before ?? change.before, after: change.after });
+		this.pendingValueRenames.set(canvasPath, pending);
+
+		const timer = this.valueRenameTimers.get(canvasPath);
+		if (timer !== undefined) window.clearTimeout(timer);
+		this.valueRenameTimers.set(canvasPath, window.setTimeout(() => {
+			this.valueRenameTimers.delete(canvasPath);
+			this.offerValueRenames(canvasPath).catch(e => console.error('Semantic Canvas: renaming values failed for ' + canvasPath, e));
+		}, VALUE_RENAME_DELAY));
+	}
+
+	/**
+	 * Asks whether to rename the old text of each edited card or link in the notes connected to it,
+	 * and optionally in every note in the vault holding exactly that value
+	 */
+	async offerValueRenames(canvasPath: string) {
+		const pending = this.pendingValueRenames.get(canvasPath);
+		this.pendingValueRenames.delete(canvasPath);
+		const file = this.app.vault.getFileByPath(canvasPath);
+		if (pending === undefined || file === null) return;
+		const canvasData = await SemanticCanvasPlugin.getCanvasData(file);
+		if (!canvasData) return;
+		const nodes = canvasData.nodes as AllCanvasNodeData[];
+		const edges = this.edgeSnapshots[canvasPath] ?? {};
+
+		pending.forEach(change => {
+			if (change.before === change.after) return;
+			const node = nodes.find(node => node.id === change.nodeId);
+			if (node === undefined || (node.type === 'text' && !this.settings.useCards) || (node.type === 'link' && !this.settings.useUrls)) return;
+			const defaultLabel = node.type === 'text' ? this.settings.cardDefault : this.settings.urlDefault;
+
+			/* the connected notes that still hold the old value */
+			const renames: ValueRename[] = [];
+			Object.keys(edges).forEach(id => {
+				const edge = edges[id];
+				if (edge.toNode !== change.nodeId || edge.fromFile === undefined || !edge.fromFile.endsWith('.md')) return;
+				const { key, type } = resolvePropertyType(this.app, edge.label !== undefined && edge.label !== '' ? edge.label : defaultLabel);
+				if (this.isExcludedKey(key)) return;
+				const from = type !== undefined ? parseScalar(change.before, type) : change.before;
+				const to = type !== undefined ? parseScalar(change.after, type) : change.after;
+				if (from === undefined || to === undefined) return;
+				if (!this.noteHasValue({ notePath: edge.fromFile, key: key, type: type, value: String(from) })) return;
+				if (renames.some(rename => rename.notePath === edge.fromFile && rename.key === key)) return;
+				renames.push({ notePath: edge.fromFile, key: key, from: String(from), to: to });
+			});
+
+			/* and every other note holding it as text */
+			const elsewhere: ValueRename[] = [];
+			this.app.vault.getMarkdownFiles().forEach(note => {
+				const frontmatter = this.app.metadataCache.getFileCache(note)?.frontmatter;
+				if (frontmatter === undefined) return;
+				Object.keys(frontmatter).forEach(key => {
+					if (this.isExcludedKey(key) || renames.some(rename => rename.notePath === note.path && rename.key === key)) return;
+					const vals = Array.isArray(frontmatter[key]) ? frontmatter[key] : [frontmatter[key]];
+					if (vals.includes(change.before)) elsewhere.push({ notePath: note.path, key: key, from: change.before, to: change.after });
+				});
+			});
+			const elsewhereNotes = new Set(elsewhere.map(rename => rename.notePath).filter(path => !renames.some(rename => rename.notePath === path)));
+			if (renames.length === 0 && elsewhereNotes.size === 0) return;
+
+			const connectedNotes = new Set(renames.map(rename => rename.notePath));
+			new ConfirmModal(this.app,
+				`Rename "${change.before}" to "${change.after}"?`,
+				`${connectedNotes.size} note(s) connected to this ${node.type === 'text' ? 'card' : 'link'} on ${file.basename} hold "${change.before}".`,
+				'Rename',
+				async (everywhere) => {
+					const applied = await this.renameValues(everywhere ? [...renames, ...elsewhere] : renames, `Rename "${change.before}" to "${change.after}"`);
+					new Notice(`Renamed "${change.before}" to "${change.after}" in ${applied} note(s)`);
+				},
+				elsewhereNotes.size > 0 ? `Also rename it in ${elsewhereNotes.size} other note(s) in the vault` : undefined).open();
+		});
+	}
+
+	/**
+	 * Replaces values in note properties, and in the record of what canvases wrote, as one undoable step
+	 * @returns how many notes were changed
+	 */
+	async renameValues(renames: ValueRename[], label: string): Promise<number> {
+		const tx = this.journal.begin(label);
+		const notePaths = new Set(renames.map(rename => rename.notePath));
+		let changedNotes = 0;
+		for (const notePath of notePaths) {
+			const note = this.app.vault.getFileByPath(notePath);
+			if (note === null) continue;
+			let changed = false;
+			await this.app.fileManager.processFrontMatter(note, (frontmatter) => {
+				renames.filter(rename => rename.notePath === notePath).forEach(rename => {
+					if (!frontmatter.hasOwnProperty(rename.key)) return;
+					const vals = Array.isArray(frontmatter[rename.key]) ? frontmatter[rename.key] : [frontmatter[rename.key]];
+					if (!vals.some((val: unknown) => String(val) === rename.from)) return;
+					this.journal.captureFrontmatter(tx, notePath, frontmatter, rename.key);
+					if (!Array.isArray(frontmatter[rename.key])) {
+						frontmatter[rename.key] = rename.to;
+					} else {
+						const updated: unknown[] = [];
+						vals.forEach((val: unknown) => {
+							const next = String(val) === rename.from ? rename.to : val;
+							if (!updated.some(existing => String(existing) === String(next))) updated.push(next);
+						});
+						frontmatter[rename.key] = updated;
+					}
+					changed = true;
+				});
+			});
+			if (changed) changedNotes = changedNotes + 1;
+		}
+
+		/* written values are recorded by their text, so the record follows the rename */
+		renames.forEach(rename => Object.keys(this.writtenProps).forEach(canvasPath => {
+			const sources = this.writtenProps[canvasPath][rename.notePath]?.[rename.key];
+			if (sources === undefined || !sources.hasOwnProperty(rename.from)) return;
+			const to = String(rename.to);
+			sources[to] = [...(sources[to] ?? []), ...sources[rename.from].filter(id => !(sources[to] ?? []).includes(id))];
+			delete sources[rename.from];
+		}));
+
+		await this.commitTransaction(tx);
+		await this.savePluginData();
+		return changedNotes;
+	}
+
+	/**
+	 * Keeps notes in step with an edge that was relabeled, had its arrowheads changed or was reconnected:
+	 * values move from the old key (or note) to the new one, and backlinks follow the new ends.
+	 * Edges whose value never made it into their note are left for the next push.
+	 * @param nodes the canvas's current nodes
+	 * @param current the canvas's current edges
+	 */
+	async applyEdgeChange(canvasPath: string, nodes: AllCanvasNodeData[], current: CanvasEdgeSnapshot, change: EdgeChange, tx: JournalTransaction) {
+		const before = this.edgeContributions(canvasPath, change.id, change.before, nodes);
+		const after = this.edgeContributions(canvasPath, change.id, change.after, nodes);
+		const same = (a: EdgeContribution, b: EdgeContribution) => a.notePath === b.notePath && a.key === b.key && a.value === b.value;
+
+		const synced = before.length > 0 && this.noteHasValue(before[0]);
+		if (synced) {
+			/* other edges on this canvas may still put the same value in */
+			const stillContributed = (contribution: EdgeContribution) => Object.keys(current).some(otherId => otherId !== change.id &&
+				this.edgeContributions(canvasPath, otherId, current[otherId], nodes).some(other => same(other, contribution)));
+			const toRemove = before.filter(old => !after.some(val => same(val, old)) && !stillContributed(old));
+			const toAdd = after.filter(val => !before.some(old => same(val, old)));
+
+			const notePaths = new Set([...toRemove, ...toAdd].map(contribution => contribution.notePath));
+			for (const notePath of notePaths) {
+				const note = this.app.vault.getFileByPath(notePath);
+				if (note === null) continue;
+				await this.app.fileManager.processFrontMatter(note, (frontmatter) => {
+					toRemove.filter(old => old.notePath === notePath).forEach(old => {
+						this.journal.captureFrontmatter(tx, notePath, frontmatter, old.key);
+						removeValue(frontmatter, old);
+					});
+					toAdd.filter(val => val.notePath === notePath).forEach(val => {
+						this.journal.captureFrontmatter(tx, notePath, frontmatter, val.key);
+						addValue(frontmatter, val);
+					});
+				});
+			}
+
+			/* move the record of which edge wrote what along with the values */
+			const written = this.writtenProps[canvasPath] ?? {};
+			toRemove.forEach(old => {
+				const sources = written[old.notePath]?.[old.key];
+				if (sources?.[old.value] === undefined) return;
+				sources[old.value] = sources[old.value].filter(id => id !== change.id);
+				if (sources[old.value].length === 0) delete sources[old.value];
+				if (Object.keys(sources).length === 0) delete written[old.notePath][old.key];
+			});
+			toAdd.forEach(val => {
+				if (written[val.notePath] === undefined) written[val.notePath] = {};
+				if (written[val.notePath][val.key] === undefined) written[val.notePath][val.key] = {};
+				const ids = written[val.notePath][val.key][val.value] ?? [];
+				if (!ids.includes(change.id)) ids.push(change.id);
+				written[val.notePath][val.key][val.value] = ids;
+			});
+			this.writtenProps[canvasPath] = written;
+		}
+
+		/* backlinks follow the ends & direction of the edge */
+		const oldLinks = backlinkPairs(change.before);
+		const newLinks = backlinkPairs(change.after);
+		for (const [from, to] of oldLinks.filter(link => !newLinks.some(other => other[0] === link[0] && other[1] === link[1]))) {
+			const fromFile = this.app.vault.getFileByPath(from);
+			const toFile = this.app.vault.getFileByPath(to);
+			if (fromFile && toFile) await this.removeSingleBacklink(fromFile, toFile, tx);
+		}
+		for (const [from, to] of newLinks.filter(link => !oldLinks.some(other => other[0] === link[0] && other[1] === link[1]))) {
+			const fromFile = this.app.vault.getFileByPath(from);
+			const toFile = this.app.vault.getFileByPath(to);
+			if (fromFile && toFile) await this.addSingleBacklink(fromFile, toFile, tx);
+		}
+
+		function backlinkPairs(edge: EdgeSnapshot): Array<[string, string]> {
+			if (edge.fromFile === undefined || edge.toFile === undefined) return [];
+			if (isBidirectional(edge)) return [[edge.fromFile, edge.toFile], [edge.toFile, edge.fromFile]];
+			return [[edge.fromFile, edge.toFile]];
+		}
+
+		function removeValue(frontmatter: Frontmatter, contribution: EdgeContribution) {
+			if (!frontmatter.hasOwnProperty(contribution.key)) return;
+			const current = frontmatter[contribution.key];
+			if (!Array.isArray(current)) {
+				if (String(current) === contribution.value) delete frontmatter[contribution.key];
+				return;
+			}
+			const remaining = current.filter((val: unknown) => String(val) !== contribution.value);
+			if (remaining.length > 0) frontmatter[contribution.key] = remaining;
+			else delete frontmatter[contribution.key];
+		}
+
+		function addValue(frontmatter: Frontmatter, contribution: EdgeContribution) {
+			if (contribution.type !== undefined) {
+				frontmatter[contribution.key] = parseScalar(contribution.value, contribution.type) ?? contribution.value;
+				return;
+			}
+			const current = frontmatter[contribution.key];
+			const existing: unknown[] = !frontmatter.hasOwnProperty(contribution.key) ? [] : Array.isArray(current) ? current : [current];
+			if (!existing.some((val: unknown) => String(val) === contribution.value)) existing.push(contribution.value);
+			frontmatter[contribution.key] = existing;
+		}
+	}
+
+	/**
+	 * The values an edge puts into notes when pushed: the target's value in the source note's key, plus
+	 * the source's link in the target note for bidirectional & inverse relations between notes.
+	 * Values already recorded as written by the edge are preferred over what the target node holds now.
+	 * @param edgeId used to look the edge up in the record of written values
+	 * @param nodes the canvas's current nodes
+	 */
+	edgeContributions(canvasPath: string, edgeId: string, edge: EdgeSnapshot, nodes: AllCanvasNodeData[]): EdgeContribution[] {
+		if (edge.fromFile === undefined || !edge.fromFile.endsWith('.md')) return [];
+		const target = nodes.find(node => node.id === edge.toNode);
+		let defaultLabel: string;
+		if (edge.toFile !== undefined && this.settings.useFiles) defaultLabel = this.settings.fileDefault;
+		else if (target?.type === 'text' && this.settings.useCards) defaultLabel = this.settings.cardDefault;
+		else if (target?.type === 'link' && this.settings.useUrls) defaultLabel = this.settings.urlDefault;
+		else return [];
+
+		const { key, type } = resolvePropertyType(this.app, edge.label !== undefined && edge.label !== '' ? edge.label : defaultLabel);
+		if (this.isExcludedKey(key)) return [];
+
+		const recorded = this.writtenProps[canvasPath]?.[edge.fromFile]?.[key] ?? {};
+		let value = Object.keys(recorded).find(val => recorded[val].includes(edgeId));
+		if (value === undefined) {
+			if (edge.toFile !== undefined) value = this.wikilinkTo(edge.toFile, edge.fromFile);
+			else if (target?.type === 'text') value = target.text;
+			else if (target?.type === 'link') value = target.url;
+		}
+		if (value === undefined) return [];
+		if (type !== undefined) {
+			const parsed = parseScalar(value, type);
+			if (parsed === undefined) return [];
+			value = String(parsed);
+		}
+
+		const contributions: EdgeContribution[] = [{ notePath: edge.fromFile, key: key, type: type, value: value }];
+		if (edge.toFile !== undefined && edge.toFile.endsWith('.md')) {
+			const sourceLink = this.wikilinkTo(edge.fromFile, edge.toFile);
+			const inverse = parseInverseRelations(this.settings.inverseRelations).get(key);
+			if (inverse !== undefined) contributions.push({ notePath: edge.toFile, key: inverse, value: sourceLink });
+			else if (isBidirectional(edge)) contributions.push({ notePath: edge.toFile, key: key, type: type, value: sourceLink });
+		}
+		return contributions;
+	}
+
+	/**
+	 * Whether a note currently holds a value, going by the metadata cache
+	 */
+	noteHasValue(contribution: EdgeContribution): boolean {
+		const frontmatter = this.app.metadataCache.getCache(contribution.notePath)?.frontmatter;
+		if (frontmatter === undefined || !frontmatter.hasOwnProperty(contribution.key)) return false;
+		const vals = Array.isArray(frontmatter[contribution.key]) ? frontmatter[contribution.key] : [frontmatter[contribution.key]];
+		return vals.some((val: unknown) => String(val) === contribution.value);
+	}
+
+	/**
+	 * A wikilink to a file, written the way pushes write it from the given note
+	 */
+	wikilinkTo(path: string, sourcePath: string): string {
+		const file = this.app.vault.getFileByPath(path);
+		if (file === null) return '[[' + path.replace(/\.md$/, '') + ']]';
+		return '[[' + this.app.metadataCache.fileToLinktext(file, sourcePath) + ']]';
+	}
+
 	/**
 	 * Adds a single backlink between two files automatically
 	 * @param fromFile The source file
 	 * @param toFile The target file
 	 * @param bidirectional Whether to add backlinks in both directions
+	 * @param tx The journal transaction to record the previous sections in
 	 */
-	async addBacklinkBetweenFiles(fromFile: TFile, toFile: TFile, bidirectional: boolean) {
+	async addBacklinkBetweenFiles(fromFile: TFile, toFile: TFile, bidirectional: boolean, tx?: JournalTransaction) {
 		if (!this.settings.useBacklinks) return;
 		
 		// Add backlink in fromFile pointing to toFile
-		await this.addSingleBacklink(fromFile, toFile);
+		await this.addSingleBacklink(fromFile, toFile, tx);
 		
 		// If bidirectional, add backlink in toFile pointing to fromFile
 		if (bidirectional) {
-			await this.addSingleBacklink(toFile, fromFile);
+			await this.addSingleBacklink(toFile, fromFile, tx);
 		}
 	}
 
@@ -698,8 +2022,9 @@ export default class SemanticCanvasPlugin extends Plugin {
 	 * Adds a single backlink to a file
 	 * @param file The file to add the backlink to
 	 * @param linkedFile The file to link to
+	 * @param tx The journal transaction to record the previous section in
 	 */
-	async addSingleBacklink(file: TFile, linkedFile: TFile) {
+	async addSingleBacklink(file: TFile, linkedFile: TFile, tx?: JournalTransaction) {
 		if (!this.settings.useBacklinks) return;
 		
 		const content = await this.app.vault.read(file);
@@ -715,18 +2040,19 @@ export default class SemanticCanvasPlugin extends Plugin {
 		
 		if (headingMatch) {
 			// Heading exists, check if link already exists
-			const headingIndex = headingMatch.index!;
+			const headingIndex = headingMatch.index ?? 0;
 			const afterHeading = content.substring(headingIndex + headingMatch[0].length);
 			
 			// Find the next heading or end of file
 			const nextHeadingMatch = afterHeading.match(/^#+\s/m);
-			const sectionEndIndex = nextHeadingMatch ? nextHeadingMatch.index! : afterHeading.length;
+			const sectionEndIndex = nextHeadingMatch?.index ?? afterHeading.length;
 			const sectionContent = afterHeading.substring(0, sectionEndIndex);
 			
 			// Check if the link already exists
 			if (sectionContent.includes(linkText)) {
 				return; // Link already exists
 			}
+			this.journal.captureSection(tx, file.path, heading, content);
 			
 			// Add the new link
 			const existingLinks = sectionContent.trim();
@@ -738,6 +2064,7 @@ export default class SemanticCanvasPlugin extends Plugin {
 				afterHeading.substring(sectionEndIndex);
 		} else {
 			// Heading doesn't exist, add it at the end
+			this.journal.captureSection(tx, file.path, heading, content);
 			const trimmedContent = content.trimEnd();
 			newContent = `${trimmedContent}\n\n${heading}\n${linkLine}\n`;
 		}
@@ -750,16 +2077,17 @@ export default class SemanticCanvasPlugin extends Plugin {
 	 * @param fromFile The source file
 	 * @param toFile The target file  
 	 * @param bidirectional Whether to remove backlinks in both directions
+	 * @param tx The journal transaction to record the previous sections in
 	 */
-	async removeBacklinkBetweenFiles(fromFile: TFile, toFile: TFile, bidirectional: boolean) {
+	async removeBacklinkBetweenFiles(fromFile: TFile, toFile: TFile, bidirectional: boolean, tx?: JournalTransaction) {
 		if (!this.settings.useBacklinks) return;
 		
 		// Remove backlink in fromFile pointing to toFile
-		await this.removeSingleBacklink(fromFile, toFile);
+		await this.removeSingleBacklink(fromFile, toFile, tx);
 		
 		// If bidirectional, remove backlink in toFile pointing to fromFile
 		if (bidirectional) {
-			await this.removeSingleBacklink(toFile, fromFile);
+			await this.removeSingleBacklink(toFile, fromFile, tx);
 		}
 	}
 
@@ -767,31 +2095,43 @@ export default class SemanticCanvasPlugin extends Plugin {
 	 * Removes a single backlink from a file
 	 * @param file The file to remove the backlink from
 	 * @param linkedFile The file to unlink
+	 * @param tx The journal transaction to record the previous section in
 	 */
-	async removeSingleBacklink(file: TFile, linkedFile: TFile) {
+	async removeSingleBacklink(file: TFile, linkedFile: TFile, tx?: JournalTransaction) {
+		await this.removeBacklinkTo(file, linkedFile.basename, tx);
+	}
+
+	/**
+	 * Removes the backlink line for a basename, which may no longer exist as a file
+	 * @param file The file to remove the backlink from
+	 * @param basename The name the backlink was written with
+	 * @param tx The journal transaction to record the previous section in
+	 */
+	async removeBacklinkTo(file: TFile, basename: string, tx?: JournalTransaction) {
 		if (!this.settings.useBacklinks) return;
 		
 		const content = await this.app.vault.read(file);
 		const heading = this.settings.backlinksHeading;
 		const headingRegex = new RegExp(`^${heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'gm');
-		const linkText = `[[${linkedFile.basename}]]`;
-		const linkLineRegex = new RegExp(`^\\s*-\\s*\\[\\[${linkedFile.basename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]\\]\\s*$`, 'gm');
+		const linkLineRegex = new RegExp(`^\\s*-\\s*\\[\\[${basename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]\\]\\s*$`, 'gm');
 		
 		// Check if the heading exists
 		const headingMatch = content.match(headingRegex);
 		
 		if (!headingMatch) return; // No heading, nothing to remove
 		
-		const headingIndex = headingMatch.index!;
+		const headingIndex = headingMatch.index ?? 0;
 		const afterHeading = content.substring(headingIndex + headingMatch[0].length);
 		
 		// Find the next heading or end of file
 		const nextHeadingMatch = afterHeading.match(/^#+\s/m);
-		const sectionEndIndex = nextHeadingMatch ? nextHeadingMatch.index! : afterHeading.length;
+		const sectionEndIndex = nextHeadingMatch?.index ?? afterHeading.length;
 		const sectionContent = afterHeading.substring(0, sectionEndIndex);
 		
 		// Remove the link line
 		const updatedSection = sectionContent.replace(linkLineRegex, '').trim();
+		if (updatedSection === sectionContent.trim()) return; // Link wasn't there
+		this.journal.captureSection(tx, file.path, heading, content);
 		
 		// If the section is now empty, remove the entire heading
 		let newContent: string;
@@ -811,11 +2151,49 @@ export default class SemanticCanvasPlugin extends Plugin {
 		await this.app.vault.modify(file, newContent);
 	}
 
+	/**
+	 * Points a backlink line at a file's new name after it was renamed
+	 * @param file The file holding the backlink
+	 * @param oldBasename The name the backlink was written with
+	 * @param newBasename The name to link to instead
+	 * @param tx The journal transaction to record the previous section in
+	 * @returns whether there was a backlink to update
+	 */
+	async renameBacklink(file: TFile, oldBasename: string, newBasename: string, tx?: JournalTransaction): Promise<boolean> {
+		if (!this.settings.useBacklinks) return false;
+		
+		const content = await this.app.vault.read(file);
+		const heading = this.settings.backlinksHeading;
+		const headingRegex = new RegExp(`^${heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'gm');
+		const linkLineRegex = new RegExp(`^(\\s*-\\s*)\\[\\[${oldBasename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]\\]\\s*$`, 'm');
+		
+		const headingMatch = content.match(headingRegex);
+		if (!headingMatch) return false;
+		
+		const sectionStart = (headingMatch.index ?? 0) + headingMatch[0].length;
+		const afterHeading = content.substring(sectionStart);
+		const nextHeadingMatch = afterHeading.match(/^#+\s/m);
+		const sectionEndIndex = nextHeadingMatch?.index ?? afterHeading.length;
+		const sectionContent = afterHeading.substring(0, sectionEndIndex);
+		if (!linkLineRegex.test(sectionContent)) return false;
+		
+		// If the new name is already linked, the old line is simply dropped
+		if (sectionContent.includes(`[[${newBasename}]]`)) {
+			await this.removeBacklinkTo(file, oldBasename, tx);
+			return true;
+		}
+		this.journal.captureSection(tx, file.path, heading, content);
+		const updatedSection = sectionContent.replace(linkLineRegex, (_line, bullet) => `${bullet}[[${newBasename}]]`);
+		await this.app.vault.modify(file, content.substring(0, sectionStart) + updatedSection + afterHeading.substring(sectionEndIndex));
+		return true;
+	}
+
 	/**
 	 * The main function for using an existing canvas to update note properties.
-	 * @param overwrite `true` will overwrite existing values for keys
+	 * @param mode append to, overwrite or mirror existing values for keys
+	 * @param live `true` when live sync is pushing: no preview, no report, and only keys that actually change are written
 	 */
-	async pushCanvasDataToNotes(overwrite: boolean, canvasFile?: TFile, onlyUpdateNoteAtPath?: string) {
+	async pushCanvasDataToNotes(mode: PushMode, canvasFile?: TFile, onlyUpdateNoteAtPath?: string, live = false) {
 		//@ts-expect-error
 		if (canvasFile === undefined) canvasFile = this.app.workspace.getActiveFile();
 		if (!canvasFile || canvasFile?.extension !== 'canvas') {
@@ -823,42 +2201,106 @@ export default class SemanticCanvasPlugin extends Plugin {
 			return;
 		}
 
-		let data = await SemanticCanvasPlugin.getCanvasMap(canvasFile);
-
-		if (!data) {
+		const plan = await this.planCanvasPush(canvasFile, mode, onlyUpdateNoteAtPath);
+		if (plan === undefined) {
 			new Notice('Aborted: No Canvas data found');
 			return;
 		}
+		let changes = plan.changes;
+		const fileNodes = plan.fileNodes;
+		const actualFilesMap = plan.filesMap;
+		if (live) {
+			/* most canvas saves are nodes being moved around, don't rewrite notes for those */
+			changes.forEach(change => change.keys = change.keys.filter(keyChange => hasEffect(keyChange)));
+			changes = changes.filter(change => change.keys.length > 0);
+			if (changes.length === 0) return;
+		}
+		/* values on typed edges that can't be read as their type are skipped, say which */
+		const unparsable: string[] = [];
+		changes.forEach(change => change.keys.forEach(keyChange => {
+			keyChange.unparsable.forEach(val => unparsable.push(`"${val}" (${keyChange.key}: ${keyChange.type}) in ${change.file.basename}`));
+		}));
+		if (unparsable.length > 0 && !live) new Notice(`Skipped values that don't match their property type: ${unparsable.join(', ')}`);
+		const canvasMap = plan.data;
+		const canvasPath = canvasFile.path;
+		const proceed = async () => {
+			if (!this.settings.previewBeforePush || live) {
+				await this.applyPushChanges(changes, mode, canvasMap, canvasPath, live);
+				return;
+			}
+			new PushPreviewModal(this.app, changes, mode, async (confirmed) => {
+				try {
+					await this.applyPushChanges(confirmed, mode, canvasMap, canvasPath);
+				} catch (e) {
+					new Notice('Push failed: ' + e.message);
+				}
+			}).open();
+		}
 
-		let fileNodes = data?.files?.map(file => new FileNode(file, data!, this.settings, this.app));
-
-		/* De-dupe - if same file was on a canvas multiple times */
-		let dedupedFileNodes: FileNode[] = [];
-		fileNodes?.forEach(fileNode => {
-			if (fileNode.propsOnCanvas === null) return
+		/* Check the edges against the relation schema, if one is configured */
+		if (this.settings.schemaPath !== '') {
+			let schema: RelationSchema | undefined;
+			try {
+				schema = await loadRelationSchema(this.app, this.settings.schemaPath);
+			} catch (e) {
+				new Notice('Aborted: Could not read relation schema. ' + e.message);
+				return;
+			}
+			if (schema === undefined) {
+				new Notice(`Relation schema ${this.settings.schemaPath} not found, skipping validation`);
+			} else {
+				const propsByPath = new Map(actualFilesMap.map(fileMap => [fileMap.file.path, fileMap.props ?? {}]));
+				const violations = validateAgainstSchema(this.app, schema, fileNodes ?? [], propsByPath);
+				if (violations.length > 0 && live) {
+					/* no one is there to confirm a report, so only hold back when the schema blocks */
+					if (this.settings.blockOnSchemaViolations) {
+						new Notice(`Live sync paused for ${canvasFile.basename}: ${violations.length} schema violation(s)`);
+						return;
+					}
+				} else if (violations.length > 0) {
+					new SchemaReportModal(this.app, violations, this.settings.blockOnSchemaViolations, proceed).open();
+					return;
+				}
+			}
+		}
 
-			let existing = dedupedFileNodes?.find(ogNodeList => ogNodeList.filePath === fileNode.filePath);
+		await proceed();
+	}
 
-			if (existing === undefined) {
-				dedupedFileNodes.push(fileNode);
-				return
-			}
+	/**
+	 * Works out what pushing a canvas would write into each note, without writing anything
+	 * @param onlyUpdateNoteAtPath leave every other note out of the plan
+	 * @returns `undefined` when the canvas has no data
+	 */
+	async planCanvasPush(canvasFile: TFile, mode: PushMode, onlyUpdateNoteAtPath?: string): Promise<PlannedPush | undefined> {
+		let data = await SemanticCanvasPlugin.getCanvasMap(canvasFile, this.settings.groupEdges);
+		if (!data) return undefined;
 
-			existing.propsOnCanvas = mergeProps(existing.propsOnCanvas, fileNode.propsOnCanvas);
-		})
+		const axes = this.canvasAxes[canvasFile.path] ?? {};
+		let fileNodes = data?.files?.map(file => new FileNode(file, data!, this.settings, this.app, axes));
 
-		/* Remove any unaffected nodes before seeking files */
-		dedupedFileNodes = dedupedFileNodes.filter(fileNode => fileNode.propsOnCanvas && Object.keys(fileNode.propsOnCanvas).length > 0);
+		/* De-dupe - if same file was on a canvas multiple times - and remove any unaffected nodes before seeking files */
+		const dedupedFileNodes = mergeNoteProps(fileNodes ?? []);
 
 		let actualFilesMap: Array<FileAndPropsToSetMap> = dedupedFileNodes.map(fileNode => {
 			const file = this.app.vault.getFileByPath(fileNode.filePath);
 			if (file === null) throw new Error('No file found at path ' + fileNode.filePath)
 			return {
 				file: file,
-				props: fileNode.propsOnCanvas
+				props: fileNode.propsOnCanvas,
+				sources: fileNode.sources,
+				types: fileNode.types
 			}
 		});
 
+		/* Mirroring also cleans up notes this canvas wrote to before, even if they've lost every edge since */
+		const previouslyWritten: WrittenProps = mode === PushMode.Mirror ? writtenForMirror(this.writtenProps[canvasFile.path] ?? {}, key => this.isExcludedKey(key)) : {};
+		Object.keys(previouslyWritten).forEach(notePath => {
+			if (actualFilesMap.some(fileMap => fileMap.file.path === notePath)) return;
+			const file = this.app.vault.getFileByPath(notePath);
+			if (file !== null) actualFilesMap.push({ file: file, props: {} });
+		});
+
 		/* Remove any non-markdown files before setting properties */
 		actualFilesMap = actualFilesMap.filter(fileMap => fileMap.file?.extension === 'md');
 
@@ -873,66 +2315,63 @@ export default class SemanticCanvasPlugin extends Plugin {
 			actualFilesMap = actualFilesMap.filter(fileMap => fileMap.file.path === onlyUpdateNoteAtPath);
 		}
 
-		let propertyAddCount = 0;
-		actualFilesMap.forEach(fileMap => {
-			if (fileMap.props === null) throw new Error('Cannot push canvas data to notes - fileMap.props was null');
-			propertyAddCount = propertyAddCount + Object.keys(fileMap.props!).length
-		})
+		const changes = planFileChanges(this.app, actualFilesMap, mode, previouslyWritten,
+			(notePath, key) => this.valuesWrittenByOtherCanvases(canvasFile.path, notePath, key));
+		return { changes: changes, data: data, fileNodes: fileNodes ?? [], filesMap: actualFilesMap };
+	}
 
-		let modifiedFileCount = actualFilesMap.length;
+	/**
+	 * Writes the confirmed changes of a push and maintains the backlinks of the touched notes.
+	 * @param changes the planned changes, with anything the user unticked marked as excluded
+	 * @param data the canvas map the changes were planned from
+	 * @param canvasPath the canvas the changes came from, to remember what it wrote
+	 * @param live `true` when live sync is pushing, which keeps quiet & remembers what it wrote
+	 * @param quiet `true` to report the result only by returning it
+	 * @returns how many properties were set in how many notes
+	 */
+	async applyPushChanges(changes: FileChange[], mode: PushMode, data: CanvasMap, canvasPath: string, live = false, quiet = false): Promise<{ files: number, props: number }> {
+		const tx = this.journal.begin(live ? `Live sync notes from ${canvasPath}` : `${describePushMode(mode)} note properties based on canvas`);
+		const result = await applyFileChanges(this.app, changes, mode, (file, frontmatter, key) => {
+			this.journal.captureFrontmatter(tx, file.path, frontmatter, key);
+		});
+		const written = this.writtenProps[canvasPath] ?? {};
+		recordWrittenProps(written, changes, mode);
+		this.writtenProps[canvasPath] = written;
+		const touchedPaths = writtenPaths(changes);
 
 		// Process frontmatter and collect backlinks
 		const backlinksMap = new Map<TFile, Set<string>>();
-		
+
 		// Helper function to add a backlink
 		const addBacklink = (file: TFile, link: string) => {
+			if (!touchedPaths.includes(file.path)) return;
 			if (!backlinksMap.has(file)) {
 				backlinksMap.set(file, new Set<string>());
 			}
 			backlinksMap.get(file)!.add(link);
 		};
-		
-		actualFilesMap.forEach(fileMap => {
-			this.app.fileManager.processFrontMatter(fileMap.file, (frontmatter) => {
-				/* have to directly mutate this object, a bit tedious */
-				Object.keys(fileMap.props!).forEach(key => {
-					const values = fileMap.props![key];
-					
-					if (overwrite || !frontmatter.hasOwnProperty(key)) {
-						frontmatter[key] = fileMap.props![key];
-						return
-					}
 
-					//force array
-					if (!Array.isArray(frontmatter[key])) frontmatter[key] = [frontmatter[key]];
-					/* Don't add duplicate values to existing props */
-					fileMap.props![key] = fileMap.props![key].filter((val: any) => !frontmatter[key].some((og: any) => og === val))
-					frontmatter[key] = [...frontmatter[key], ...fileMap.props![key]];
-				})
-			});
-		});
-		
 		// Process backlinks if enabled
-		if (this.settings.useBacklinks && data && data.edges && data.files) {
+		if (this.settings.useBacklinks && data.edges && data.files) {
 			const files = data.files;
 			data.edges.forEach(edge => {
 				// Get the nodes involved in this edge
 				const fromNode = files.find(f => f.id === edge.fromNode);
 				const toNode = files.find(f => f.id === edge.toNode);
-				
+
 				if (fromNode && toNode) {
 					// Both nodes are files, add backlinks
 					const fromFile = this.app.vault.getFileByPath(fromNode.file);
 					const toFile = this.app.vault.getFileByPath(toNode.file);
-					
-				if (fromFile && toFile) {
+
+					if (fromFile && toFile) {
 						// Create wikilinks
 						const fromWikilink = `[[${fromFile.basename}]]`;
 						const toWikilink = `[[${toFile.basename}]]`;
-						
+
 						// Add backlink from -> to
 						addBacklink(fromFile, toWikilink);
-						
+
 						// If bidirectional, add backlink to -> from
 						if (edge.isBidirectional) {
 							addBacklink(toFile, fromWikilink);
@@ -941,29 +2380,65 @@ export default class SemanticCanvasPlugin extends Plugin {
 				}
 			});
 		}
-		
+
 		// Update backlinks in files
 		for (const [file, backlinksSet] of backlinksMap) {
 			const backlinks = Array.from(backlinksSet);
-			await this.updateBacklinksInFile(file, backlinks);
+			await this.updateBacklinksInFile(file, backlinks, tx);
+		}
+		await this.commitTransaction(tx);
+		await this.savePluginData();
+
+		if (live) {
+			for (const path of touchedPaths) {
+				const file = this.app.vault.getFileByPath(path);
+				if (file !== null) this.liveSyncWrites.set(path, { content: await this.app.vault.read(file), origin: canvasPath });
+			}
+			return result;
 		}
+		if (quiet) return result;
 
-		if (modifiedFileCount > 0) {
-			new Notice(`Successfully set ${propertyAddCount} prop(s) in ${modifiedFileCount} file(s)`)
+		if (result.files > 0) {
+			new Notice(`Successfully set ${result.props} prop(s) in ${result.files} file(s)`)
 		} else {
 			new Notice(`No notes connections found on canvas.`)
 		}
+		return result;
+	}
 
-		function mergeProps(a: any, b: any) {
-			Object.keys(b).forEach(key => {
-				if (a.hasOwnProperty(key)) {
-					a[key] = [...a[key], ...b[key]];
-				} else {
-					a[key] = b[key];
-				}
-			})
-			return a;
+	/**
+	 * Lets a single edge to a group choose between reaching the group's contents and linking to the group itself
+	 * @param edge the canvas's edge object, as given to the edge menu
+	 */
+	addGroupEdgeMenuItems(menu: Menu, edge: any) {
+		const canvasFile = this.app.workspace.getActiveFile();
+		if (canvasFile === null || canvasFile.extension !== 'canvas') return;
+		const current = edge.getData?.()[GROUP_EDGE_KEY] ?? (this.settings.groupEdges === GroupEdges.Group ? 'group' : 'contents');
+		const choose = async (target: 'group' | 'contents') => {
+			const tx = this.journal.begin(`Point edge at group ${target === 'group' ? 'itself' : 'contents'} on ${canvasFile.basename}`);
+			await this.app.vault.process(canvasFile, (data) => {
+				const canvasData = JSON.parse(data) as CanvasData;
+				const edgeData = canvasData.edges.find(each => each.id === edge.id);
+				if (edgeData === undefined) return data;
+				this.journal.captureCanvas(tx, canvasFile.path, data);
+				edgeData[GROUP_EDGE_KEY] = target;
+				return JSON.stringify(canvasData);
+			});
+			await this.commitTransaction(tx);
 		}
+		menu.addSeparator();
+		menu.addItem((item: any) => {
+			item.setTitle("Edge sets the group itself")
+				.setIcon("box")
+				.setChecked(current === 'group')
+				.onClick(() => choose('group'));
+		});
+		menu.addItem((item: any) => {
+			item.setTitle("Edge sets every node in the group")
+				.setIcon("boxes")
+				.setChecked(current === 'contents')
+				.onClick(() => choose('contents'));
+		});
 	}
 
 	/**
@@ -993,7 +2468,13 @@ export default class SemanticCanvasPlugin extends Plugin {
 		})
 
 		// save to file
-		this.app.vault.process(fileView.file, () => JSON.stringify(visibleCanvasData));
+		const tx = this.journal.begin(`Add "${label}" nodes to ${fileView.file.basename}`);
+		const canvasPath = fileView.file.path;
+		await this.app.vault.process(fileView.file, (data) => {
+			this.journal.captureCanvas(tx, canvasPath, data);
+			return JSON.stringify(visibleCanvasData);
+		});
+		await this.commitTransaction(tx);
 
 		function makeNodeOrGroupOfNodesFor(propVals: string[], label: string): AllCanvasNodeData[] {
 			const returnObj: AllCanvasNodeData[] = [];
@@ -1051,7 +2532,7 @@ export default class SemanticCanvasPlugin extends Plugin {
 		if (fileView.file === null) throw new Error('fileView had no associated file');
 		const visibleCanvasData = JSON.parse(fileView.data) as CanvasData
 
-		const canvasMap = await SemanticCanvasPlugin.getCanvasMap(fileView.file);
+		const canvasMap = await SemanticCanvasPlugin.getCanvasMap(fileView.file, this.settings.groupEdges);
 
 		if (canvasMap === undefined) throw new Error("Canvas Map was unable to be created");
 
@@ -1064,6 +2545,7 @@ export default class SemanticCanvasPlugin extends Plugin {
 			noteProps.forEach(prop => {
 				const key = Object.keys(prop)[0];
 				const vals = prop[key];
+				const label = this.edgeLabelFor(typeof node.file === 'string' ? node.file : node.file.path, key);
 				vals.forEach(val => {
 					let connection = connectionTargets.find(target => target.content === val || (target.normalizedFileName && target.normalizedFileName! === val));
 					//create edges & nodes when no matching node is found
@@ -1100,12 +2582,12 @@ export default class SemanticCanvasPlugin extends Plugin {
 							fromSide: 'right',
 							toNode: newNode.id,
 							toSide: 'left',
-							label: key
+							label: label
 						})
 						return;
 					}
 					//don't create edges that already exist
-					if (edgeAlreadyExists(node.id, connection.id, key)) return
+					if (edgeAlreadyExists(node.id, connection.id, label)) return
 
 					//only create edge when matching node is found
 					const fromToSides = SemanticCanvasPlugin.determineSides(node, connection as never as CanvasNodeData);
@@ -1115,46 +2597,543 @@ export default class SemanticCanvasPlugin extends Plugin {
 						fromSide: fromToSides.from,
 						toNode: connection.id,
 						toSide: fromToSides.to,
-						label: key
+						label: label
 					})
 				})
 			})
 		})
 
-		// push new edges & nodes to the canvas data
-		visibleCanvasData.edges.push(...edgesToBuild);
-		visibleCanvasData.nodes.push(...nodesToBuild);
-		// save to file
-		this.app.vault.process(fileView.file, () => JSON.stringify(visibleCanvasData));
+		// push new edges & nodes to the canvas data
+		visibleCanvasData.edges.push(...edgesToBuild);
+		visibleCanvasData.nodes.push(...nodesToBuild);
+		if (this.settings.layoutAfterPull) {
+			layoutCanvas(visibleCanvasData, this.settings.layoutAlgorithm);
+		} else {
+			avoidOverlaps(visibleCanvasData, nodesToBuild.map(node => node.id));
+		}
+		// save to file
+		const tx = this.journal.begin(`Pull note properties to ${fileView.file.basename}`);
+		const canvasPath = fileView.file.path;
+		await this.app.vault.process(fileView.file, (data) => {
+			this.journal.captureCanvas(tx, canvasPath, data);
+			return JSON.stringify(visibleCanvasData);
+		});
+		await this.commitTransaction(tx);
+
+		return
+
+		function edgeAlreadyExists(fromId: string, toId: string, labeled: string): boolean {
+			return visibleCanvasData.edges.some(edge => edge.fromNode === fromId && edge.toNode === toId && edge.label === labeled)
+		}
+	}
+
+	/**
+	 * Turns kanban mode off for a canvas, or asks which property its columns stand for and turns it on
+	 */
+	async toggleKanbanMode(file: TFile) {
+		if (this.kanbanCanvases.hasOwnProperty(file.path)) {
+			delete this.kanbanCanvases[file.path];
+			this.kanbanSnapshots.delete(file.path);
+			await this.savePluginData();
+			new Notice(`Kanban mode off for ${file.basename}`);
+			return;
+		}
+		new ChoiceModal(this.app, 'Choose the property for the columns...', this.scalarPropertyKeys(), key => key, async key => {
+			this.kanbanCanvases[file.path] = key;
+			await this.reconcileKanban(file);
+			await this.savePluginData();
+			new Notice(`Kanban mode on for ${file.basename}: moving a note into a group sets its "${key}"`);
+		}).open();
+	}
+
+	/**
+	 * Creates a kanban canvas with a column for every value the key has in the vault
+	 */
+	async buildKanban(key: string) {
+		const byValue = new Map<string, string[]>();
+		this.app.vault.getMarkdownFiles().forEach(note => {
+			const val = this.app.metadataCache.getFileCache(note)?.frontmatter?.[key];
+			if (!isScalar(val) || String(val) === '') return;
+			byValue.set(String(val), [...(byValue.get(String(val)) ?? []), note.path]);
+		});
+		if (byValue.size === 0) {
+			new Notice(`Aborted: No notes have a value for "${key}"`);
+			return;
+		}
+		const columns = Array.from(byValue.entries())
+			.sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+			.map(([value, notes]) => ({ value: value, notes: notes.sort() }));
+		const canvasContents = buildKanbanCanvas(columns);
+		this.colorFromNotes(canvasContents);
+		const savePath = this.getNewCanvasPath(`Kanban - ${key}`, this.app.workspace.getActiveFile()?.parent?.path ?? '');
+		this.kanbanCanvases[savePath] = key;
+		this.kanbanSnapshots.set(savePath, kanbanColumnsOf(canvasContents));
+		await this.savePluginData();
+		const createdCanvas = await this.app.vault.create(savePath, JSON.stringify(canvasContents));
+		this.app.workspace.getLeaf().openFile(createdCanvas);
+	}
+
+	/**
+	 * The property keys that hold a single value in at least one note, for choosing kanban columns
+	 */
+	scalarPropertyKeys(): string[] {
+		const keys = new Set<string>();
+		this.app.vault.getMarkdownFiles().forEach(note => {
+			const frontmatter = this.app.metadataCache.getFileCache(note)?.frontmatter ?? {};
+			Object.keys(frontmatter).forEach(key => {
+				if (isScalar(frontmatter[key]) && !this.isExcludedKey(key)) keys.add(key);
+			});
+		});
+		return Array.from(keys).sort();
+	}
+
+	/**
+	 * Sets the kanban property of every note that was dragged into another column since the canvas was last seen.
+	 * A canvas seen for the first time is only recorded.
+	 */
+	async reconcileKanban(file: TFile) {
+		const key = this.kanbanCanvases[file.path];
+		if (key === undefined) return;
+		let canvasData: RawCanvasObj | undefined;
+		try {
+			canvasData = await SemanticCanvasPlugin.getCanvasData(file);
+		} catch (e) {
+			return; //still being written, or not valid JSON
+		}
+		if (!canvasData) return;
+
+		const current = kanbanColumnsOf(canvasData as CanvasData);
+		const previous = this.kanbanSnapshots.get(file.path);
+		this.kanbanSnapshots.set(file.path, current);
+		if (previous === undefined) return;
+		const moves = columnMoves(previous, current);
+		if (moves.length === 0) return;
+
+		const type = registeredType(this.app, key);
+		const tx = this.journal.begin(`Move notes between columns on ${file.basename}`);
+		for (const move of moves) {
+			const node = canvasData.nodes.find(node => node.id === move.nodeId) as CanvasFileData;
+			const note = this.app.vault.getFileByPath(node.file);
+			if (note === null || note.extension !== 'md') continue;
+			const value = type !== undefined ? parseScalar(move.column, type) ?? move.column : move.column;
+			let changed = false;
+			await this.app.fileManager.processFrontMatter(note, (frontmatter) => {
+				/* already there, e.g. because live sync moved the note after its property changed */
+				if (frontmatter.hasOwnProperty(key) && String(frontmatter[key]) === String(value)) return;
+				this.journal.captureFrontmatter(tx, note.path, frontmatter, key);
+				frontmatter[key] = value;
+				changed = true;
+			});
+			if (changed) new Notice(`${note.basename}: ${key} set to "${move.column}"`);
+		}
+		await this.commitTransaction(tx);
+	}
+
+	/**
+	 * Rearranges every node of a canvas with the layout chosen in settings & saves it
+	 */
+	async relayoutCanvas(file: TFile) {
+		const tx = this.journal.begin(`Re-layout ${file.basename}`);
+		await this.app.vault.process(file, (data) => {
+			this.journal.captureCanvas(tx, file.path, data);
+			const canvasData = JSON.parse(data) as CanvasData;
+			layoutCanvas(canvasData, this.settings.layoutAlgorithm);
+			return JSON.stringify(canvasData);
+		});
+		await this.commitTransaction(tx);
+	}
+
+	/**
+	 * Finds labeled edges leaving file nodes whose value is no longer in the note's property,
+	 * then recolors or removes them & saves the canvas.
+	 * @param removeStale `true` deletes stale edges, `false` recolors them with the stale edge color
+	 */
+	async refreshCanvasFromNotes(fileView: TextFileView, removeStale: boolean) {
+		if (fileView.file === null) throw new Error('fileView had no associated file');
+		const visibleCanvasData = JSON.parse(fileView.data) as CanvasData
+
+		const canvasMap = await SemanticCanvasPlugin.getCanvasMap(fileView.file, this.settings.groupEdges);
+		if (canvasMap === undefined) throw new Error("Canvas Map was unable to be created");
+		const connectionTargets = SemanticCanvasPlugin.buildConnectionTargets(canvasMap);
+
+		const staleEdges = visibleCanvasData.edges.filter(edge => {
+			if (edge.label === undefined || edge.label === '') return false;
+			const fromNode = canvasMap.files?.find(file => file.id === edge.fromNode);
+			if (fromNode === undefined || !fromNode.file.endsWith('.md')) return false;
+			const target = connectionTargets.find(target => target.id === edge.toNode);
+			if (target === undefined) return false; //groups aren't checked
+			const { key, type } = resolvePropertyType(this.app, edge.label);
+			if (this.isExcludedKey(key)) return false;
+
+			const frontmatter = this.app.metadataCache.getCache(fromNode.file)?.frontmatter;
+			if (frontmatter === undefined || !frontmatter.hasOwnProperty(key)) return true;
+			const vals = Array.isArray(frontmatter[key]) ? frontmatter[key] : [frontmatter[key]];
+			/* single values were parsed from the card text when written, compare them the same way */
+			const content = target.content;
+			if (type !== undefined && content !== undefined && vals.some((val: unknown) => parseScalar(content, type) === val)) return false;
+			return !vals.some((val: unknown) => this.valueMatchesTarget(String(val), target, fromNode.file));
+		});
+
+		if (staleEdges.length === 0) {
+			new Notice('Canvas is up to date with its notes');
+			return;
+		}
+
+		if (removeStale) {
+			visibleCanvasData.edges = visibleCanvasData.edges.filter(edge => !staleEdges.includes(edge));
+		} else {
+			staleEdges.forEach(edge => edge.color = this.settings.staleEdgeColor);
+		}
+
+		const tx = this.journal.begin(`Refresh ${fileView.file.basename} from notes`);
+		const canvasPath = fileView.file.path;
+		await this.app.vault.process(fileView.file, (data) => {
+			this.journal.captureCanvas(tx, canvasPath, data);
+			return JSON.stringify(visibleCanvasData);
+		});
+		await this.commitTransaction(tx);
+
+		const labels = [...new Set(staleEdges.map(edge => edge.label))].join(', ');
+		new Notice(`${removeStale ? 'Removed' : 'Highlighted'} ${staleEdges.length} stale edge(s) labeled: ${labels}`);
+	}
+
+	/**
+	 * Whether a property value refers to the given canvas node. Wikilinks are resolved
+	 * relative to the note holding them, so `[[Note]]`, `[[folder/Note]]` and `[[Note|alias]]` all match.
+	 * @param sourcePath the note the value was read from
+	 */
+	valueMatchesTarget(val: string, target: { content: string, normalizedFileName?: string, nodeType: string }, sourcePath: string): boolean {
+		if (target.content === val || target.normalizedFileName === val) return true;
+		if (target.nodeType !== 'file' || !SemanticCanvasPlugin.isFile(val)) return false;
+		const linkpath = val.substring(2, val.length - 2).split('|')[0].split('#')[0];
+		const foundFile = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+		return foundFile !== null && foundFile.path === target.content;
+	}
+
+	/**
+	 * Runs a live sync step once the file has gone quiet for the configured delay
+	 * @param path the canvas or note that changed
+	 */
+	scheduleLiveSync(path: string, run: () => Promise<void>) {
+		const pending = this.liveSyncTimers.get(path);
+		if (pending !== undefined) window.clearTimeout(pending);
+		this.liveSyncTimers.set(path, window.setTimeout(() => {
+			this.liveSyncTimers.delete(path);
+			run().catch(e => console.error('Semantic Canvas: live sync failed for ' + path, e));
+		}, this.settings.liveSyncDelay));
+	}
 
-		return
+	/**
+	 * Remembers every note's properties, so later edits can be compared against them
+	 */
+	snapshotAllNotes() {
+		this.noteSnapshots.clear();
+		this.app.vault.getMarkdownFiles().forEach(file => this.noteSnapshots.set(file.path, this.snapshotNote(file.path)));
+	}
 
-		function edgeAlreadyExists(fromId: string, toId: string, labeled: string): boolean {
-			return visibleCanvasData.edges.some(edge => edge.fromNode === fromId && edge.toNode === toId && edge.label === labeled)
+	snapshotNote(filepath: string): NoteSnapshot {
+		const relationKeys = this.singleValuedRelationKeys();
+		return snapshotFrontmatter(this.app.metadataCache.getCache(filepath)?.frontmatter, key => this.isExcludedKey(key), key => relationKeys.has(key));
+	}
+
+	/**
+	 * The keys whose single values stand for something on a canvas: those of typed edge labels,
+	 * kanban column keys and axis keys
+	 */
+	singleValuedRelationKeys(): Set<string> {
+		const keys = new Set<string>();
+		Object.values(this.edgeSnapshots).forEach(snapshot => Object.values(snapshot).forEach(edge => {
+			const typed = edge.label !== undefined ? splitTypedLabel(edge.label) : undefined;
+			if (typed?.type !== undefined) keys.add(typed.key);
+		}));
+		Object.values(this.kanbanCanvases).forEach(key => keys.add(key));
+		Object.values(this.canvasAxes).forEach(axes => {
+			if (axes.x !== undefined) keys.add(axes.x.key);
+			if (axes.y !== undefined) keys.add(axes.y.key);
+		});
+		return keys;
+	}
+
+	/**
+	 * Mirrors a canvas the user just edited into its notes. Saves made by live sync itself are skipped.
+	 */
+	async liveSyncCanvas(file: TFile) {
+		const content = await this.app.vault.cachedRead(file);
+		const ownWrite = this.liveSyncWrites.get(file.path);
+		this.liveSyncWrites.delete(file.path);
+		if (ownWrite?.content === content) return;
+		await this.pushCanvasDataToNotes(PushMode.Mirror, file, undefined, true);
+	}
+
+	/**
+	 * Adds & removes edges on every canvas holding a note whose properties were just edited.
+	 * When the edit came from live-syncing a canvas, that canvas is left alone.
+	 */
+	async liveSyncNote(file: TFile) {
+		const previous = this.noteSnapshots.get(file.path);
+		const current = this.snapshotNote(file.path);
+		this.noteSnapshots.set(file.path, current);
+		const content = await this.app.vault.cachedRead(file);
+		const ownWrite = this.liveSyncWrites.get(file.path);
+		this.liveSyncWrites.delete(file.path);
+		/* a note seen for the first time has nothing to compare against */
+		if (previous === undefined) return;
+		const skipCanvas = ownWrite?.content === content ? ownWrite.origin : undefined;
+
+		const { added, removed } = diffNoteSnapshots(previous, current);
+		if (Object.keys(added).length === 0 && Object.keys(removed).length === 0) return;
+
+		const tx = this.journal.begin(`Live sync canvases from ${file.basename}`);
+		const canvases = this.app.vault.getFiles().filter(canvas => canvas.extension === 'canvas' && canvas.path !== skipCanvas);
+		try {
+			for (const canvas of canvases) {
+				const canvasData = SemanticCanvasPlugin.parseCanvasData(await this.app.vault.cachedRead(canvas));
+				if (!canvasData?.nodes.some(node => node.type === 'file' && node.file === file.path)) continue;
+				/* on a kanban canvas, a new value for the column key moves the note instead of adding an edge; likewise for the axis keys */
+				const kanbanKey = this.kanbanCanvases[canvas.path];
+				const column = kanbanKey !== undefined ? added[kanbanKey]?.[0] : undefined;
+				const axes = this.canvasAxes[canvas.path] ?? {};
+				const axisKeys = [axes.x?.key, axes.y?.key].filter((key): key is string => key !== undefined);
+				const onAxis = axisKeys.some(key => added[key] !== undefined || removed[key] !== undefined);
+				const withoutPlacementKeys = (changes: NoteSnapshot) => {
+					const copy = { ...changes };
+					if (kanbanKey !== undefined) delete copy[kanbanKey];
+					axisKeys.forEach(key => delete copy[key]);
+					return copy;
+				}
+				let written: string | undefined;
+				await this.app.vault.process(canvas, (data) => {
+					const canvasData = SemanticCanvasPlugin.parseCanvasData(data);
+					if (canvasData === undefined) return data;
+					const noteNodeIds = canvasData.nodes.filter(node => node.type === 'file' && node.file === file.path).map(node => node.id);
+					const moved = column !== undefined && moveIntoColumn(canvasData, noteNodeIds, column);
+					const placed = onAxis && positionByAxes(canvasData, axes, path => path === file.path ? this.app.metadataCache.getCache(path)?.frontmatter ?? {} : {}) > 0;
+					const linked = this.applyNoteChangesToCanvas(canvasData, file.path, withoutPlacementKeys(added), withoutPlacementKeys(removed));
+					if (!moved && !placed && !linked) return data;
+					this.journal.captureCanvas(tx, canvas.path, data);
+					written = JSON.stringify(canvasData);
+					return written;
+				});
+				if (written !== undefined) this.liveSyncWrites.set(canvas.path, { content: written });
+			}
+		} finally {
+			/* canvases already rewritten stay undoable, even when a later one fails */
+			await this.commitTransaction(tx);
 		}
 	}
 
 	/**
-	 * Gets the **list type** properties from the passed-in note file
+	 * Removes the edges leaving a note's nodes for values taken out of the note, and adds edges
+	 * (and nodes, if nothing on the canvas matches) for values put in. Mutates the canvas data.
+	 * @returns whether anything changed
+	 */
+	applyNoteChangesToCanvas(canvasData: CanvasData, notePath: string, added: { [key: string]: string[] }, removed: { [key: string]: string[] }): boolean {
+		/* getCanvasNodes decorates the nodes it's given, so work from a copy */
+		const targets = SemanticCanvasPlugin.buildConnectionTargets(SemanticCanvasPlugin.getCanvasNodes(JSON.parse(JSON.stringify(canvasData))) ?? {});
+		const noteNodes = canvasData.nodes.filter(node => node.type === 'file' && node.file === notePath);
+		if (noteNodes.length === 0) return false;
+		let changed = false;
+
+		canvasData.edges = canvasData.edges.filter(edge => {
+			if (edge.label === undefined || !noteNodes.some(node => node.id === edge.fromNode)) return true;
+			const { key, type } = resolvePropertyType(this.app, edge.label);
+			const target = targets.find(target => target.id === edge.toNode);
+			if (removed[key] === undefined || target === undefined) return true;
+			if (!removed[key].some(val => this.valueMatchesTypedTarget(val, target, notePath, type))) return true;
+			changed = true;
+			return false;
+		});
+
+		/* new values hang off the first copy of the note, so they aren't duplicated */
+		const noteNode = noteNodes[0];
+		const newNodeIds: string[] = [];
+		Object.keys(added).forEach(key => {
+			const label = this.edgeLabelFor(notePath, key);
+			const { type } = resolvePropertyType(this.app, label);
+			added[key].forEach(val => {
+				let toNode = canvasData.nodes.find(node => {
+					const target = targets.find(target => target.id === node.id);
+					return node.id !== noteNode.id && target !== undefined && this.valueMatchesTypedTarget(val, target, notePath, type);
+				});
+				const matched = toNode;
+				if (matched !== undefined && canvasData.edges.some(edge => edge.fromNode === noteNode.id && edge.toNode === matched.id
+					&& edge.label !== undefined && resolvePropertyType(this.app, edge.label).key === key)) return;
+				if (toNode === undefined) {
+					toNode = this.makeNodeForValue(val, notePath, Number(noteNode.x) + Number(noteNode.width) + 20, Number(noteNode.y));
+					canvasData.nodes.push(toNode);
+					newNodeIds.push(toNode.id);
+				}
+				const sides = SemanticCanvasPlugin.determineSides(noteNode, toNode);
+				canvasData.edges.push({
+					id: (Math.random() + 1).toString(36).substring(4),
+					fromNode: noteNode.id,
+					fromSide: sides.from,
+					toNode: toNode.id,
+					toSide: sides.to,
+					label: label
+				});
+				changed = true;
+			});
+		});
+		avoidOverlaps(canvasData, newNodeIds);
+		return changed;
+	}
+
+	/**
+	 * Like `valueMatchesTarget`, but single values also match cards whose text parses to them
+	 */
+	valueMatchesTypedTarget(val: string, target: { content: string, normalizedFileName?: string, nodeType: string }, sourcePath: string, type?: ScalarType): boolean {
+		if (this.valueMatchesTarget(val, target, sourcePath)) return true;
+		if (type === undefined || target.nodeType !== 'card') return false;
+		const parsed = parseScalar(target.content, type);
+		return parsed !== undefined && String(parsed) === val;
+	}
+
+	/**
+	 * A new canvas node for a property value: a file node when it links to a note, otherwise a card or link
+	 * @param sourcePath the note holding the value, for resolving links
+	 */
+	makeNodeForValue(val: string, sourcePath: string, x: number, y: number): AllCanvasNodeData {
+		const id = (Math.random() + 1).toString(36).substring(4);
+		const resolved = this.resolvePropValue(val, sourcePath);
+		if (resolved.type === 'file') return { id: id, type: 'file', file: resolved.value, x: x, y: y, width: 400, height: 400 };
+		if (resolved.type === 'url') return { id: id, type: 'link', url: resolved.value, x: x, y: y, width: 400, height: 400 };
+		return { id: id, type: 'text', text: resolved.value, x: x, y: y, width: val.length > 15 ? 400 : 200, height: val.length > 15 ? 200 : 100 };
+	}
+
+	/**
+	 * Gets the list type and single-valued properties from the passed-in note file
 	 * @param file the path of the .md file to get properties from
-	 * @returns list-type properties map
+	 * @returns properties map, single values as one-item lists of their text
 	 */
 	getNoteData(filepath: string): Array<{ [index: string]: Array<string> }> {
 
 		const allProperties = this.app.metadataCache.getCache(filepath)?.frontmatter;
 		let listTypeProps: Array<{ [index: string]: Array<string> }> = [];
 
-		const excludeKeys = this.settings.excludeKeys.split(',').map(key => key.trim().toUpperCase());
-
 		if (allProperties !== undefined) {
 			Object.keys(allProperties).forEach((key) => {
-				if (excludeKeys.some(exclusion => exclusion === key.toUpperCase())) return
+				if (this.isExcludedKey(key)) return
 				if (Array.isArray(allProperties[key])) listTypeProps.push({ [key]: allProperties[key] });
+				else if (isScalar(allProperties[key]) && allProperties[key] !== '') listTypeProps.push({ [key]: [String(allProperties[key])] });
 			})
 		}
 		return listTypeProps;
 	}
 
+	/**
+	 * The label for an edge representing one of a note's properties.
+	 * Single values get a type suffix like `due:date` so pushing the edge back writes a single value again.
+	 */
+	edgeLabelFor(filepath: string, key: string): string {
+		const frontmatter = this.app.metadataCache.getCache(filepath)?.frontmatter;
+		return labelForProperty(this.app, key, frontmatter?.[key]);
+	}
+
+	/**
+	 * Stores the transaction in the journal, if it recorded anything, and persists it
+	 */
+	async commitTransaction(tx: JournalTransaction) {
+		if (this.journal.commit(tx)) await this.savePluginData();
+	}
+
+	/**
+	 * Restores everything a recorded operation changed, then removes it from the journal
+	 */
+	async revertTransaction(tx: JournalTransaction) {
+		const skipped = await this.journal.revert(this.app, tx);
+		await this.savePluginData();
+		if (skipped > 0) {
+			new Notice(`Reverted "${tx.label}", ${skipped} change(s) skipped because their files no longer exist`);
+		} else {
+			new Notice(`Reverted "${tx.label}"`);
+		}
+	}
+
+	/**
+	 * The values any canvas other than the given one has written into a note's key.
+	 * Those values are owned by the other canvas, so pushes and removals from this one leave them alone.
+	 */
+	valuesWrittenByOtherCanvases(canvasPath: string, notePath: string, key: string): string[] {
+		return valuesWrittenElsewhere(this.writtenProps, canvasPath, notePath, key);
+	}
+
+	/**
+	 * Clears a key on behalf of a canvas, keeping any values other canvases wrote into it.
+	 * Call from inside `processFrontMatter`.
+	 */
+	clearOwnedValues(frontmatter: Frontmatter, canvasPath: string, notePath: string, key: string) {
+		const protectedVals = this.valuesWrittenByOtherCanvases(canvasPath, notePath, key);
+		const current = frontmatter[key];
+		const existing: unknown[] = !frontmatter.hasOwnProperty(key) ? [] : Array.isArray(current) ? current : [current];
+		const kept = existing.filter((val: unknown) => protectedVals.includes(String(val)));
+		if (kept.length === 0) delete frontmatter[key];
+		else frontmatter[key] = Array.isArray(frontmatter[key]) ? kept : kept[0];
+		delete this.writtenProps[canvasPath]?.[notePath]?.[key];
+	}
+
+	/**
+	 * Lists which canvases, and which edges on them, produced the property values of a note
+	 */
+	showProvenance(file?: TFile) {
+		//@ts-expect-error
+		if (file === undefined) file = this.app.workspace.getActiveFile();
+		if (!file || file?.extension !== 'md') {
+			new Notice('Aborted: Active file is not Markdown file');
+			return;
+		}
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+		const entries: ProvenanceEntry[] = [];
+		const notePath = file.path;
+		Object.keys(this.writtenProps).forEach(canvasPath => {
+			const forNote = this.writtenProps[canvasPath][notePath];
+			if (forNote === undefined) return;
+			Object.keys(forNote).forEach(key => {
+				const current = Array.isArray(frontmatter[key]) ? frontmatter[key] : [frontmatter[key]];
+				Object.keys(forNote[key]).forEach(val => {
+					entries.push({
+						key: key,
+						value: val,
+						canvasPath: canvasPath,
+						elementIds: forNote[key][val],
+						stillInNote: current.some((og: unknown) => og === val)
+					});
+				});
+			});
+		});
+		new ProvenanceModal(this.app, file, entries, (canvasPath, id) => this.revealCanvasElement(canvasPath, id)).open();
+	}
+
+	/**
+	 * Opens the canvas and selects the edge or node with the given id
+	 */
+	async revealCanvasElement(canvasPath: string, id: string) {
+		const canvasFile = this.app.vault.getFileByPath(canvasPath);
+		if (canvasFile === null) {
+			new Notice(`Canvas ${canvasPath} no longer exists`);
+			return;
+		}
+		const leaf = this.app.workspace.getLeaf();
+		await leaf.openFile(canvasFile);
+		//@ts-expect-error - the canvas view isn't part of the public API
+		const canvas = leaf.view.canvas;
+		if (canvas === undefined) return;
+		const item = canvas.edges?.get(id) ?? canvas.nodes?.get(id);
+		if (item === undefined) {
+			new Notice('That edge is no longer on the canvas');
+			return;
+		}
+		canvas.selectOnly(item);
+		canvas.zoomToSelection();
+	}
+
+	/**
+	 * Whether the key is in the "Keys to ignore" setting (case-insensitive)
+	 */
+	isExcludedKey(key: string): boolean {
+		return isExcludedKey(this.settings, key);
+	}
+
 	//#region --- Static Helper Methods
 
 	/**
@@ -1258,21 +3237,24 @@ export default class SemanticCanvasPlugin extends Plugin {
 
 
 	static isGroup(val: Array<string>) {
-		return val.length > 1;
+		return isGroup(val);
 	}
 
 	static isFile(val: string): boolean {
-		if (val.substring(0, 2) !== '[[') return false;
-		if (val.substring(val.length - 2) !== ']]') return false;
-		if (val.split('[[').length !== 2) return false;
-		return true
+		return isFile(val);
 	}
 
 	static isURL(val: string): boolean {
-		if (val.toUpperCase().substring(0, 4) !== 'HTTP') return false
-		if (!val.contains('//')) return false
-		if (val.length < 8) return false
-		return true
+		return isURL(val);
+	}
+
+	/**
+	 * The canvas map of a canvas file, with edges to groups read the way the settings say
+	 */
+	async getCanvasMapFor(file: TFile): Promise<CanvasMap> {
+		const map = await SemanticCanvasPlugin.getCanvasMap(file, this.settings.groupEdges);
+		if (map === undefined) throw new Error(`No canvas data found in ${file.path}`);
+		return map;
 	}
 
 	static async getCanvasData(file: TFile | null): Promise<RawCanvasObj | undefined> {
@@ -1282,134 +3264,69 @@ export default class SemanticCanvasPlugin extends Plugin {
 		return canvas!
 	}
 
-	static getCanvasNodes(data: RawCanvasObj): CanvasMap | undefined {
-		if (data === undefined) return undefined;
-		let map: CanvasNodeMap = {
-			cards: (<CanvasTextData[]>data.nodes.filter((node) => node.type == 'text')),
-			files: (<CanvasFileData[]>data.nodes.filter((node) => node.type == 'file')),
-			urls: (<CanvasLinkData[]>data.nodes.filter((node) => node.type == 'link')),
-			groups: (<CanvasGroupData[]>data.nodes.filter((node) => node.type == 'group')),
-		}
-
-		/* Find wholly-contained file-type nodes & add to group */
-		map.groups?.forEach((group) => {
-			group.containedNodes = [] as CanvasNodeData[];
-			map.files?.forEach((file) => {
-				if (groupContainsNode(group, file)) {
-					group.containedNodes.push(file);
-					if (file.hasOwnProperty('inGroups')) {
-						file.inGroups.push(group)
-					} else {
-						file.inGroups = [group];
-					}
-				}
-			})
-			map.cards?.forEach((cards) => {
-				if (groupContainsNode(group, cards)) {
-					group.containedNodes.push(cards);
-				}
-			})
-			map.urls?.forEach((urls) => {
-				if (groupContainsNode(group, urls)) {
-					group.containedNodes.push(urls);
-				}
-			})
-		})
-
-		/**
-		 * Returns true if the Group's outer bounds wholly contain the file's outer bounds.
-		 * Mimicks the behavior in Obsidian
-		 * @param group 
-		 * @param node 
-		 */
-		function groupContainsNode(group: CanvasGroupData, node: CanvasNodeData): boolean {
-			if (group.y > node.y) return false
-			if (group.y + group.height < node.y + node.height) return false
-			if (group.x > node.x) return false
-			if (group.x + group.width < node.x + node.width) return false
-			return true;
+	/**
+	 * Parses a canvas file's text, leaving out canvases that are empty, not valid JSON or have no nodes
+	 */
+	static parseCanvasData(raw: string): CanvasData | undefined {
+		let canvasData: CanvasData;
+		try {
+			canvasData = JSON.parse(raw);
+		} catch (e) {
+			return undefined; //still being written, or not valid JSON
 		}
+		if (!Array.isArray(canvasData?.nodes)) return undefined;
+		if (!Array.isArray(canvasData.edges)) canvasData.edges = [];
+		return canvasData;
+	}
 
-		return map;
+	static getCanvasNodes(data: RawCanvasObj): CanvasMap | undefined {
+		return getCanvasNodes(data);
 	}
 
 	static getCanvasEdges(data: RawCanvasObj): CanvasEdgeData[] | undefined {
-		if (data === undefined) return undefined;
-		data.edges.forEach(edge => {
-			edge.isBidirectional = (edge.fromEnd === 'arrow' || edge.toEnd === 'none')
-		})
-		return data.edges
+		return getCanvasEdges(data);
 	}
 
-	static async getCanvasMap(file: TFile | null): Promise<CanvasMap | undefined> {
+	/**
+	 * @param groupEdges what edges to groups stand for, unless an edge has its own `groupTarget`
+	 */
+	static async getCanvasMap(file: TFile | null, groupEdges = GroupEdges.Contents): Promise<CanvasMap | undefined> {
 		if (!file) return undefined;
 
 		const canvasData = await SemanticCanvasPlugin.getCanvasData(file);
 		if (!canvasData) return undefined;
 
-		let map = SemanticCanvasPlugin.getCanvasNodes(canvasData)
-		if (!map) return undefined;
-
-		let edges = SemanticCanvasPlugin.getCanvasEdges(canvasData)
-		map!.edges = edges as unknown as Array<CanvasEdgeData & { isBidirectional: boolean }>;
-
-		edges?.forEach(edge => {
-			const toType = getTypeOfNodeById(edge.toNode);
-
-			if (toType === 'group') {
-				/* create phantom edges to group contents */
-				let group = map?.groups?.find(g => g.id === edge.toNode);
-				if (!group) throw new Error('Unmatched group. ID: ' + edge.toNode);
-				makePhantomPropagatedEdgesToGroupContents(group!, edge);
-			}
-		})
-
-		return map
-
-		function getTypeOfNodeById(nodeId: string) {
-			if (map?.cards?.some(card => card.id === nodeId)) return 'card'
-			if (map?.files?.some(file => file.id === nodeId)) return 'file'
-			if (map?.urls?.some(url => url.id === nodeId)) return 'url'
-			if (map?.groups?.some(group => group.id === nodeId)) return 'group'
-			throw new Error('No type found for id: ' + nodeId);
-		}
-
-		/**
-		 * Mutates the map to set its edges property to the passed-in edges AND
-		 * the "phantom" edges created by links-to-groups.
-		 * @param map 
-		 * @param edges 
-		 */
-		function makePhantomPropagatedEdgesToGroupContents(group: CanvasGroupData, edge: CanvasEdgeData) {
-			group.containedNodes.forEach((node: CanvasNodeData) => {
-				if (node.type === 'group') return //if a group contains another group, that group node can be ignored
-
-				const newEdge: CanvasEdgeData = {
-					id: edge.id + '-phantom',
-					fromNode: edge.fromNode,
-					fromSide: 'right', //doesn't matter
-					toNode: node.id,
-					toSide: 'left', //doesn't matter
-					label: edge.hasOwnProperty('label') ? edge.label : group.label
-				}
-
-				edges?.push(newEdge);
-			})
-		}
+		return getCanvasMapFromData(canvasData, groupEdges);
 	}
 
 	//#endregion
 
 	onunload() {
-		//nothing to do
+		this.liveSyncTimers.forEach(timer => window.clearTimeout(timer));
+		this.valueRenameTimers.forEach(timer => window.clearTimeout(timer));
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const { journal, writtenProps, edgeSnapshots, kanbanCanvases, canvasAxes, ...settings } = (await this.loadData()) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.journal = new Journal(journal ?? [], this.settings.journalSize);
+		this.writtenProps = writtenProps ?? {};
+		this.edgeSnapshots = edgeSnapshots ?? {};
+		this.kanbanCanvases = kanbanCanvases ?? {};
+		this.canvasAxes = canvasAxes ?? {};
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		this.journal.maxSize = this.settings.journalSize;
+		this.journal.trim();
+		await this.savePluginData();
+	}
+
+	/**
+	 * Settings live at the top level of the plugin data, alongside the journal and write records
+	 */
+	async savePluginData() {
+		await this.saveData({ ...this.settings, journal: this.journal.transactions, writtenProps: this.writtenProps, edgeSnapshots: this.edgeSnapshots, kanbanCanvases: this.kanbanCanvases, canvasAxes: this.canvasAxes });
 	}
 }
 
@@ -1466,6 +3383,36 @@ class SemanticCanvasSettingsTab extends PluginSettingTab {
 				});
 		}
 
+		new Setting(containerEl)
+			.setName('Layout')
+			.setDesc('How nodes are arranged on generated canvases and by the "Re-layout canvas" command')
+			.addDropdown((dropDown) => {
+				dropDown
+					.addOption(LayoutAlgorithm[LayoutAlgorithm.Layered], 'Layered (follows edge direction)')
+					.addOption(LayoutAlgorithm[LayoutAlgorithm.ForceDirected], 'Force-directed')
+					.addOption(LayoutAlgorithm[LayoutAlgorithm.Radial], 'Radial')
+					.addOption(LayoutAlgorithm[LayoutAlgorithm.Grid], 'Grid')
+					.setValue(
+						LayoutAlgorithm[this.plugin.settings.layoutAlgorithm] ||
+						LayoutAlgorithm[LayoutAlgorithm.Layered]
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.layoutAlgorithm =
+							LayoutAlgorithm[value as keyof typeof LayoutAlgorithm];
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Re-layout after pulling properties')
+			.setDesc('When pulling note properties onto a canvas, rearrange the whole canvas instead of only fitting the new nodes into free space')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.layoutAfterPull)
+				.onChange(async (value) => {
+					this.plugin.settings.layoutAfterPull = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Keys to ignore')
 			.setDesc(`A comma-separated list of property keys to ignore (case-insensitive).`)
@@ -1478,7 +3425,29 @@ class SemanticCanvasSettingsTab extends PluginSettingTab {
 					})
 			});
 
+		new Setting(containerEl)
+			.setName('Axes for canvases built from notes')
+			.setDesc('Canvases created from a folder, tag or saved search place each note by its number or date properties, e.g. a timeline of due dates')
+			.addButton(btn => btn
+				.setButtonText('Edit axes')
+				.onClick(() => {
+					new AxesModal(this.app, 'Axes for new canvases', this.plugin.settings.defaultAxes, async (axes) => {
+						this.plugin.settings.defaultAxes = axes;
+						await this.plugin.saveSettings();
+					}).open();
+				}));
+
 		containerEl.createEl('h1', { text: 'Canvas → set note properties' });
+		new Setting(containerEl)
+			.setName('Preview changes before writing')
+			.setDesc('Show every affected note, key and value before pushing canvas data to notes. Default: true')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewBeforePush)
+				.onChange(async (value) => {
+					this.plugin.settings.previewBeforePush = value;
+					await this.plugin.saveSettings();
+				}));
+
 		containerEl.createEl('h2', { text: 'Toggle property setting per type' });
 		new Setting(containerEl)
 			.setName('Set note properties for connections to cards ')
@@ -1520,6 +3489,74 @@ class SemanticCanvasSettingsTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Edges to groups')
+			.setDesc('What an edge pointing at a group sets. Right click an edge to a group to choose for that edge alone.')
+			.addDropdown((dropDown) => {
+				dropDown
+					.addOption(GroupEdges[GroupEdges.Contents], 'A value for every node in the group')
+					.addOption(GroupEdges[GroupEdges.Group], 'The group itself (its label, or the note it contains with the same name)')
+					.setValue(
+						GroupEdges[this.plugin.settings.groupEdges] ||
+						GroupEdges[GroupEdges.Contents]
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.groupEdges =
+							GroupEdges[value as keyof typeof GroupEdges];
+						await this.plugin.saveSettings();
+					});
+			});
+
+		containerEl.createEl('h2', { text: 'Inverse relations' });
+		new Setting(containerEl)
+			.setName('Inverse relation pairs')
+			.setDesc('One pair per line, e.g. "parent, child". An arrow labeled with one key from note A to note B also sets the other key on B, pointing back to A.')
+			.addTextArea((text) => {
+				text
+					.setPlaceholder('parent, child\ncites, cited-by')
+					.setValue(this.plugin.settings.inverseRelations)
+					.onChange(async (value) => {
+						this.plugin.settings.inverseRelations = value;
+						await this.plugin.saveSettings();
+					})
+			});
+
+		containerEl.createEl('h2', { text: 'Color meanings' });
+		new Setting(containerEl)
+			.setName('Color mappings')
+			.setDesc('One per line. "edge 1: blocks" makes unlabeled red edges write "blocks". "node 4: status = urgent" makes green notes get "status: urgent" when pushed. Colors are "1" to "6" or hex colors like "#FF0000". Canvases created from notes are colored the same way.')
+			.addTextArea((text) => {
+				text
+					.setPlaceholder('edge 1: blocks\nnode 4: status = urgent')
+					.setValue(this.plugin.settings.colorMappings)
+					.onChange(async (value) => {
+						this.plugin.settings.colorMappings = value;
+						await this.plugin.saveSettings();
+					})
+			});
+
+		containerEl.createEl('h2', { text: 'Relation schema' });
+		new Setting(containerEl)
+			.setName('Relation schema file')
+			.setDesc('Path of a JSON or YAML file in the vault declaring allowed edge labels. Leave blank to skip validation.')
+			.addText(text => text
+				.setPlaceholder('Example: meta/relations.yaml')
+				.setValue(this.plugin.settings.schemaPath)
+				.onChange(async (value) => {
+					this.plugin.settings.schemaPath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Block pushes that violate the schema')
+			.setDesc('When off, violations are reported and the push can still go ahead. Default: false')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.blockOnSchemaViolations)
+				.onChange(async (value) => {
+					this.plugin.settings.blockOnSchemaViolations = value;
+					await this.plugin.saveSettings();
+				}));
+
 		containerEl.createEl('h2', { text: 'Default property keys for unlabeled connections' });
 		new Setting(containerEl)
 			.setName('Property key for unlabeled connections to: cards')
@@ -1566,6 +3603,37 @@ class SemanticCanvasSettingsTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Values for nested groups')
+			.setDesc('What a note inside groups within groups (e.g. Projects > Alpha > Backend) gets in its group property')
+			.addDropdown((dropDown) => {
+				dropDown
+					.addOption(GroupValues[GroupValues.Ancestors], 'Every group it is in (Projects, Alpha, Backend)')
+					.addOption(GroupValues[GroupValues.Innermost], 'Innermost group only (Backend)')
+					.addOption(GroupValues[GroupValues.Path], 'Path of groups (Projects/Alpha/Backend)')
+					.setValue(
+						GroupValues[this.plugin.settings.groupValues] ||
+						GroupValues[GroupValues.Ancestors]
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.groupValues =
+							GroupValues[value as keyof typeof GroupValues];
+						await this.plugin.saveSettings();
+					});
+			});
+
+		containerEl.createEl('h1', { text: 'Notes → refresh canvas' });
+		new Setting(containerEl)
+			.setName('Color for stale edges')
+			.setDesc('Canvas color ("1" to "6", or a hex color like "#FF0000") given to edges whose value is no longer in their note. Default: 1 (red)')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(this.plugin.settings.staleEdgeColor)
+				.onChange(async (value) => {
+					this.plugin.settings.staleEdgeColor = value.trim() || '1';
+					await this.plugin.saveSettings();
+				}));
+
 		containerEl.createEl('h1', { text: 'Automatic Backlinks' });
 		new Setting(containerEl)
 			.setName('Enable automatic backlinks')
@@ -1590,6 +3658,66 @@ class SemanticCanvasSettingsTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}));
 		}
+
+		containerEl.createEl('h1', { text: 'Live sync' });
+		new Setting(containerEl)
+			.setName('Keep canvases and notes in sync')
+			.setDesc('Adding, relabeling or deleting an edge updates the connected notes straight away (as with mirroring, without a preview). Editing a note\'s properties adds or removes the matching edges on every canvas holding the note.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.liveSync)
+				.onChange(async (value) => {
+					this.plugin.settings.liveSync = value;
+					if (value) this.plugin.snapshotAllNotes();
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Delay before syncing')
+			.setDesc('Milliseconds to wait after the last edit before writing. Default: 1000')
+			.addText(text => text
+				.setPlaceholder('1000')
+				.setValue(String(this.plugin.settings.liveSyncDelay))
+				.onChange(async (value) => {
+					const delay = parseInt(value);
+					this.plugin.settings.liveSyncDelay = isNaN(delay) || delay < 0 ? 1000 : delay;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h1', { text: 'Semantic graph export' });
+		new Setting(containerEl)
+			.setName('Base IRI')
+			.setDesc('Exported notes become IRIs under this, e.g. "https://example.org/vault/Notes/Alpha". Keys without a predicate of their own go under "property/".')
+			.addText(text => text
+				.setPlaceholder('https://example.org/vault/')
+				.setValue(this.plugin.settings.rdfBaseIri)
+				.onChange(async (value) => {
+					this.plugin.settings.rdfBaseIri = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Prefixes & predicates')
+			.setDesc('One per line. "schema: https://schema.org/" declares a prefix, so keys and edge labels like "schema:author" become that predicate. "related = schema:isRelatedTo" writes a key as another predicate.')
+			.addTextArea((text) => {
+				text
+					.setPlaceholder('schema: https://schema.org/\nrelated = schema:isRelatedTo')
+					.setValue(this.plugin.settings.rdfMappings)
+					.onChange(async (value) => {
+						this.plugin.settings.rdfMappings = value;
+						await this.plugin.saveSettings();
+					})
+			});
+
+		containerEl.createEl('h1', { text: 'Undo history' });
+		new Setting(containerEl)
+			.setName('Operations to remember')
+			.setDesc('How many past operations can be undone. Default: 50')
+			.addText(text => text
+				.setPlaceholder('50')
+				.setValue(this.plugin.settings.journalSize.toString())
+				.onChange(async (value) => {
+					const size = parseInt(value);
+					if (isNaN(size) || size < 0) return;
+					this.plugin.settings.journalSize = size;
+					await this.plugin.saveSettings();
+				}));
 	}
 }
-
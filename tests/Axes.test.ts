@@ -0,0 +1,61 @@
+import { CanvasData } from "canvas";
+import { Axis, isValidAxis, nodeAxisValues, positionByAxes, positionToValue, valueToPosition } from "Axes";
+import { fileNode, textNode } from "./fixtures";
+
+const priority: Axis = { key: 'priority', type: 'number', origin: '0', scale: -100, step: 1 };
+const timeline: Axis = { key: 'due', type: 'date', origin: '2024-05-01', scale: 50, step: 1 };
+
+describe("isValidAxis", () => {
+	test("needs a key, a scale, a positive step and an origin of the axis's type", () => {
+		expect(isValidAxis(priority)).toBe(true);
+		expect(isValidAxis(timeline)).toBe(true);
+		expect(isValidAxis({ ...priority, key: ' ' })).toBe(false);
+		expect(isValidAxis({ ...priority, scale: 0 })).toBe(false);
+		expect(isValidAxis({ ...priority, step: 0 })).toBe(false);
+		expect(isValidAxis({ ...priority, origin: 'high' })).toBe(false);
+		expect(isValidAxis({ ...timeline, origin: '05/01/2024' })).toBe(false);
+	});
+});
+
+describe("positionToValue and valueToPosition", () => {
+	test("convert numbers, rounding to the step", () => {
+		expect(positionToValue(priority, -240)).toBe(2);
+		expect(positionToValue({ ...priority, scale: 100, step: 0.1 }, 30)).toBe(0.3);
+		expect(valueToPosition(priority, 3)).toBe(-300);
+		expect(valueToPosition(priority, '3')).toBe(-300);
+	});
+
+	test("convert dates by whole days", () => {
+		expect(positionToValue(timeline, 120)).toBe('2024-05-03');
+		expect(positionToValue(timeline, -50)).toBe('2024-04-30');
+		expect(valueToPosition(timeline, '2024-05-03')).toBe(100);
+		expect(valueToPosition(timeline, '2024-05-03T18:30')).toBe(100);
+	});
+
+	test("give no position for values that aren't of the axis's type", () => {
+		expect(valueToPosition(priority, 'high')).toBeUndefined();
+		expect(valueToPosition(priority, '')).toBeUndefined();
+		expect(valueToPosition(timeline, 'someday')).toBeUndefined();
+		expect(valueToPosition(timeline, undefined)).toBeUndefined();
+	});
+});
+
+describe("nodeAxisValues", () => {
+	test("reads the values at the center of a node, skipping invalid axes", () => {
+		const node = fileNode('a', 'A.md', 75, -225);
+		expect(nodeAxisValues({ x: timeline, y: priority }, node)).toEqual({ due: '2024-05-04', priority: 2 });
+		expect(nodeAxisValues({ x: { ...timeline, key: '' } }, node)).toEqual({});
+	});
+});
+
+describe("positionByAxes", () => {
+	test("centers notes on their values, keeping their place along an axis they have no value for", () => {
+		const data: CanvasData = {
+			nodes: [fileNode('a', 'A.md'), fileNode('b', 'B.md', 7, 9), fileNode('c', 'C.md', 7, 9), textNode('t', 'x', 7, 9)],
+			edges: []
+		};
+		const values: { [path: string]: { [key: string]: string | number } } = { 'A.md': { due: '2024-05-03', priority: 1 }, 'B.md': { due: '2024-05-02' }, 'C.md': {} };
+		expect(positionByAxes(data, { x: timeline, y: priority }, path => values[path])).toBe(2);
+		expect(data.nodes.map(node => [node.x, node.y])).toEqual([[50, -125], [0, 9], [7, 9], [7, 9]]);
+	});
+});
@@ -0,0 +1,40 @@
+import { CanvasData } from "canvas";
+import { colorCanvas, keyForEdgeColor, parseColorMappings, valueForNodeColor } from "ColorMappings";
+import { edge, fileNode, textNode } from "./fixtures";
+
+const mappings = parseColorMappings('edge 1: blocks\nnode #FF0000: status = urgent\n\nnot a mapping\nnode 2: status\nEDGE 3 : depends on');
+
+describe("parseColorMappings", () => {
+	test("reads edge keys and node values, skipping lines that aren't mappings", () => {
+		expect(Array.from(mappings.edgeKeys.entries())).toEqual([['1', 'blocks'], ['3', 'depends on']]);
+		expect(Array.from(mappings.nodeValues.entries())).toEqual([['#ff0000', { key: 'status', value: 'urgent' }]]);
+	});
+});
+
+describe("keyForEdgeColor and valueForNodeColor", () => {
+	test("look colors up, hex colors case-insensitively", () => {
+		expect(keyForEdgeColor(mappings, '1')).toBe('blocks');
+		expect(keyForEdgeColor(mappings, '2')).toBeUndefined();
+		expect(keyForEdgeColor(mappings, undefined)).toBeUndefined();
+		expect(valueForNodeColor(mappings, '#ff0000')).toEqual({ key: 'status', value: 'urgent' });
+		expect(valueForNodeColor(mappings, '#Ff0000')).toEqual({ key: 'status', value: 'urgent' });
+	});
+});
+
+describe("colorCanvas", () => {
+	test("colors notes holding a mapped value and edges labeled with a mapped key", () => {
+		const data: CanvasData = {
+			nodes: [fileNode('a', 'A.md'), fileNode('b', 'B.md', 200), textNode('c', 'urgent', 400)],
+			edges: [
+				edge('e1', 'a', 'b', { label: 'blocks' }),
+				edge('e2', 'a', 'b', { label: 'blocks:text', color: '4' }),
+				edge('e3', 'a', 'c', { label: 'depends on:text' }),
+				edge('e4', 'b', 'c')
+			]
+		};
+		const values: { [path: string]: { [key: string]: string | string[] } } = { 'A.md': { status: ['later', 'urgent'] }, 'B.md': { status: 'later' } };
+		colorCanvas(data, mappings, path => values[path]);
+		expect(data.nodes.map(node => node.color)).toEqual(['#ff0000', undefined, undefined]);
+		expect(data.edges.map(each => each.color)).toEqual(['1', '4', '3', undefined]);
+	});
+});
@@ -0,0 +1,175 @@
+import { CanvasGroupData } from "canvas";
+import { CanvasMap, CoreSettings, DEFAULT_CORE_SETTINGS, getCanvasMapFromData, getNoteProps, GroupEdges, GroupValues, isExcludedKey, isFile, isURL, mergeNoteProps, RawCanvasObj, VaultLookup } from "Core";
+import { edge, fileNode, groupNode, linkNode, textNode } from "./fixtures";
+
+/** Links are note names, like in a vault where every name is unique */
+const vault: VaultLookup = {
+	linkText: targetPath => (targetPath.split('/').pop() ?? targetPath).replace(/\.md$/, ''),
+	registeredType: key => key === 'priority' ? 'number' : undefined
+};
+
+function settings(overrides: Partial<CoreSettings> = {}): CoreSettings {
+	return { ...DEFAULT_CORE_SETTINGS, ...overrides };
+}
+
+function mapOf(canvas: RawCanvasObj, groupEdges?: GroupEdges): CanvasMap {
+	const map = getCanvasMapFromData(canvas, groupEdges);
+	if (map === undefined) throw new Error('The canvas could not be read');
+	return map;
+}
+
+/** The props the canvas gives one note, by the note's node id */
+function propsOf(canvas: RawCanvasObj, nodeId: string, overrides: Partial<CoreSettings> = {}) {
+	const map = mapOf(canvas, overrides.groupEdges);
+	const node = (map.files ?? []).find(each => each.id === nodeId);
+	if (node === undefined) throw new Error(`No file node with id ${nodeId}`);
+	return getNoteProps(node, map, settings(overrides), vault);
+}
+
+describe("isFile and isURL", () => {
+	test("recognize a single wikilink", () => {
+		expect(isFile('[[Note]]')).toBe(true);
+		expect(isFile('[[Note]] and [[Other]]')).toBe(false);
+		expect(isFile('Note')).toBe(false);
+	});
+
+	test("recognize http and https urls", () => {
+		expect(isURL('https://example.org')).toBe(true);
+		expect(isURL('http://x.io')).toBe(true);
+		expect(isURL('example.org')).toBe(false);
+	});
+});
+
+describe("isExcludedKey", () => {
+	test("matches the ignored keys case-insensitively", () => {
+		const excluding = settings({ excludeKeys: 'aliases, Tags' });
+		expect(isExcludedKey(excluding, 'tags')).toBe(true);
+		expect(isExcludedKey(excluding, 'ALIASES')).toBe(true);
+		expect(isExcludedKey(excluding, 'related')).toBe(false);
+	});
+});
+
+describe("getCanvasMapFromData", () => {
+	test("sorts nodes by type and marks bidirectional edges", () => {
+		const map = mapOf({
+			nodes: [fileNode('a', 'A.md'), textNode('c', 'idea', 200), linkNode('u', 'https://x.org', 400)],
+			edges: [edge('e1', 'a', 'c'), edge('e2', 'a', 'u', { fromEnd: 'arrow' })]
+		});
+		expect(map.files?.map(node => node.id)).toEqual(['a']);
+		expect(map.cards?.map(node => node.id)).toEqual(['c']);
+		expect(map.urls?.map(node => node.id)).toEqual(['u']);
+		expect(map.edges?.map(each => each.isBidirectional)).toEqual([false, true]);
+	});
+
+	test("finds nested groups and the groups each note sits in, outermost first", () => {
+		const map = mapOf({
+			nodes: [groupNode('outer', 'Outer', 0, 0, 1000, 1000), groupNode('inner', 'Inner', 10, 10, 400, 400), fileNode('a', 'A.md', 20, 20)],
+			edges: []
+		});
+		expect(map.groups?.find(each => each.id === 'inner')?.parentGroup.id).toBe('outer');
+		expect(map.files?.[0].inGroups.map((each: CanvasGroupData) => each.id)).toEqual(['outer', 'inner']);
+	});
+
+	test("expands an edge to a group into phantom edges to its contents", () => {
+		const map = mapOf({
+			nodes: [fileNode('a', 'A.md', 2000, 0), groupNode('g', 'Team', 0, 0, 500, 500), fileNode('b', 'B.md', 10, 10), textNode('c', 'idea', 200, 10)],
+			edges: [edge('e', 'a', 'g', { label: 'member' })]
+		});
+		const phantoms = (map.edges ?? []).filter(each => each.id === 'e-phantom');
+		expect(phantoms.map(each => each.toNode).sort()).toEqual(['b', 'c']);
+		expect(phantoms.every(each => each.label === 'member')).toBe(true);
+	});
+
+	test("leaves an edge to a group alone when it links to the group itself", () => {
+		const map = mapOf({
+			nodes: [fileNode('a', 'A.md', 2000, 0), groupNode('g', 'Team', 0, 0, 500, 500), fileNode('b', 'B.md', 10, 10)],
+			edges: [edge('e', 'a', 'g', { label: 'team' })]
+		}, GroupEdges.Group);
+		expect(map.edges?.map(each => [each.id, each.toGroupItself])).toEqual([['e', true]]);
+	});
+});
+
+describe("getNoteProps", () => {
+	test("writes labeled edges as keys, and unlabeled ones under the default key of their target's type", () => {
+		const props = propsOf({
+			nodes: [fileNode('a', 'A.md'), fileNode('b', 'Notes/B.md', 200), textNode('c', 'idea', 400)],
+			edges: [edge('e1', 'a', 'b', { label: 'related' }), edge('e2', 'a', 'c')]
+		}, 'a');
+		expect(props.filePath).toBe('A.md');
+		expect(props.propsOnCanvas).toEqual({ related: ['[[B]]'], cards: ['idea'] });
+		expect(props.sources).toEqual({ related: { '[[B]]': ['e1'] }, cards: { 'idea': ['e2'] } });
+	});
+
+	test("gives nothing to a note no edge leaves", () => {
+		const props = propsOf({ nodes: [fileNode('a', 'A.md'), fileNode('b', 'B.md', 200)], edges: [edge('e', 'a', 'b', { label: 'related' })] }, 'b');
+		expect(props.propsOnCanvas).toBeNull();
+	});
+
+	test("writes both directions of a bidirectional edge", () => {
+		const canvas = { nodes: [fileNode('a', 'A.md'), fileNode('b', 'B.md', 200)], edges: [edge('e', 'a', 'b', { label: 'sibling', fromEnd: 'arrow' })] };
+		expect(propsOf(canvas, 'b').propsOnCanvas).toEqual({ sibling: ['[[A]]'] });
+	});
+
+	test("writes the inverse relation into the note an arrow points at", () => {
+		const canvas = { nodes: [fileNode('a', 'A.md'), fileNode('b', 'B.md', 200)], edges: [edge('e', 'a', 'b', { label: 'parent' })] };
+		const props = propsOf(canvas, 'b', { inverseRelations: 'parent, child' });
+		expect(props.propsOnCanvas).toEqual({ child: ['[[A]]'] });
+	});
+
+	test("reads types from labels and from the property type registry", () => {
+		const props = propsOf({
+			nodes: [fileNode('a', 'A.md'), textNode('d', '2024-05-01', 200), textNode('p', '3', 400)],
+			edges: [edge('e1', 'a', 'd', { label: 'due:date' }), edge('e2', 'a', 'p', { label: 'priority' })]
+		}, 'a');
+		expect(props.propsOnCanvas).toEqual({ due: ['2024-05-01'], priority: ['3'] });
+		expect(props.types).toEqual({ due: 'date', priority: 'number' });
+	});
+
+	test("writes the groups a note sits in the way the group values setting says", () => {
+		/* reading a canvas decorates its data, so each read gets its own */
+		const canvas = () => ({
+			nodes: [groupNode('outer', 'Projects', 0, 0, 1000, 1000), groupNode('inner', 'Alpha', 10, 10, 400, 400), fileNode('a', 'A.md', 20, 20)],
+			edges: []
+		});
+		expect(propsOf(canvas(), 'a', { useGroups: true }).propsOnCanvas).toEqual({ groups: ['Projects', 'Alpha'] });
+		expect(propsOf(canvas(), 'a', { useGroups: true, groupValues: GroupValues.Innermost }).propsOnCanvas).toEqual({ groups: ['Alpha'] });
+		expect(propsOf(canvas(), 'a', { useGroups: true, groupValues: GroupValues.Path }).propsOnCanvas).toEqual({ groups: ['Projects/Alpha'] });
+		expect(propsOf(canvas(), 'a', { useGroups: false }).propsOnCanvas).toEqual({});
+	});
+
+	test("gives each note in a group the value of an edge to the group", () => {
+		const canvas = {
+			nodes: [textNode('c', 'Q3', 2000, 0), groupNode('g', 'Team', 0, 0, 500, 500), fileNode('b', 'B.md', 10, 10)],
+			edges: [edge('e', 'g', 'c', { label: 'quarter' })]
+		};
+		const props = propsOf(canvas, 'b', { useGroups: false });
+		expect(props.propsOnCanvas).toEqual({ quarter: ['Q3'] });
+		expect(props.sources).toEqual({ quarter: { 'Q3': ['e'] } });
+	});
+
+	test("writes an edge to the group itself as the group's label", () => {
+		const canvas = {
+			nodes: [fileNode('a', 'A.md', 2000, 0), groupNode('g', 'Team', 0, 0, 500, 500), fileNode('b', 'B.md', 10, 10)],
+			edges: [edge('e', 'a', 'g', { label: 'team', groupTarget: 'group' })]
+		};
+		expect(propsOf(canvas, 'a').propsOnCanvas).toEqual({ team: ['Team'] });
+	});
+
+	test("leaves out edge types that are turned off", () => {
+		const canvas = { nodes: [fileNode('a', 'A.md'), textNode('c', 'idea', 200)], edges: [edge('e', 'a', 'c', { label: 'tags' })] };
+		expect(propsOf(canvas, 'a', { useCards: false }).propsOnCanvas).toEqual({});
+	});
+});
+
+describe("mergeNoteProps", () => {
+	test("combines the nodes of a note that's on the canvas twice and drops notes given nothing", () => {
+		const map = mapOf({
+			nodes: [fileNode('a1', 'A.md'), fileNode('a2', 'A.md', 0, 200), textNode('x', 'x', 300), textNode('y', 'y', 300, 200), fileNode('b', 'B.md', 600)],
+			edges: [edge('e1', 'a1', 'x', { label: 'tags' }), edge('e2', 'a2', 'y', { label: 'tags' })]
+		});
+		const merged = mergeNoteProps((map.files ?? []).map(node => getNoteProps(node, map, settings(), vault)));
+		expect(merged.map(note => note.filePath)).toEqual(['A.md']);
+		expect(merged[0].propsOnCanvas).toEqual({ tags: ['x', 'y'] });
+		expect(merged[0].sources).toEqual({ tags: { x: ['e1'], y: ['e2'] } });
+	});
+});
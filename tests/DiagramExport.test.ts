@@ -0,0 +1,78 @@
+import { getCanvasMapFromData, VaultLookup } from "Core";
+import { diagramOfCanvas, toDot, toGraphMl, toMermaid } from "DiagramExport";
+import { edge, fileNode, groupNode, textNode } from "./fixtures";
+
+const vault: VaultLookup = {
+	linkText: targetPath => targetPath.replace(/\.md$/, ''),
+	registeredType: () => undefined
+};
+
+/** A note and a card in a group inside another group, a note outside, and edges between them and to the inner group */
+function diagram() {
+	const map = getCanvasMapFromData({
+		nodes: [
+			groupNode('outer', 'Outer', 0, 0, 1000, 1000),
+			groupNode('inner', 'Inner "team"', 10, 10, 500, 500),
+			fileNode('a', 'A.md', 20, 20),
+			textNode('c', 'an\nidea', 200, 20),
+			fileNode('b', 'B.md', 2000, 0)
+		],
+		edges: [edge('e1', 'a', 'c', { label: 'rel' }), edge('e2', 'b', 'inner', { fromEnd: 'arrow' })]
+	});
+	if (map === undefined) throw new Error('The canvas could not be read');
+	return diagramOfCanvas(map, 'Map.canvas', vault);
+}
+
+describe("diagramOfCanvas", () => {
+	test("keeps edges to a group as they are and puts nodes in their innermost group", () => {
+		const { nodes, edges } = diagram();
+		expect(nodes.map(node => [node.id, node.type, node.text, node.group])).toEqual([
+			['outer', 'group', 'Outer', undefined],
+			['inner', 'group', 'Inner "team"', 'outer'],
+			['a', 'file', '[[A]]', 'inner'],
+			['b', 'file', '[[B]]', undefined],
+			['c', 'card', 'an\nidea', 'inner']
+		]);
+		expect(edges).toEqual([
+			{ id: 'e1', from: 'a', to: 'c', label: 'rel', bidirectional: false },
+			{ id: 'e2', from: 'b', to: 'inner', label: '', bidirectional: true }
+		]);
+	});
+});
+
+describe("toMermaid", () => {
+	test("writes groups as nested subgraphs", () => {
+		expect(toMermaid(diagram())).toBe([
+			'flowchart LR',
+			'    subgraph g0["Outer"]',
+			'        subgraph g1["Inner #quot;team#quot;"]',
+			'            n0["[[A]]"]',
+			'            n2("an<br>idea")',
+			'        end',
+			'    end',
+			'    n1["[[B]]"]',
+			'    n0 -->|"rel"| n2',
+			'    n1 <--> g1',
+			''
+		].join('\n'));
+	});
+});
+
+describe("toDot", () => {
+	test("writes groups as clusters that edges to the group stop at", () => {
+		const dot = toDot(diagram(), 'My "map"');
+		expect(dot.startsWith('digraph "My \\"map\\"" {\n\tcompound=true;\n')).toBe(true);
+		expect(dot).toContain('\tsubgraph cluster_g0 {\n\t\tlabel="Outer";\n\t\tg0 [shape=point, style=invis];\n\t\tsubgraph cluster_g1 {');
+		expect(dot).toContain('\t\t\tn2 [label="an\\nidea", style=rounded];');
+		expect(dot).toContain('\tn0 -> n2 [label="rel"];');
+		expect(dot).toContain('\tn1 -> g1 [dir=both, lhead=cluster_g1];');
+	});
+});
+
+describe("toGraphMl", () => {
+	test("keeps canvas ids and nests group contents", () => {
+		const graphMl = toGraphMl(diagram());
+		expect(graphMl).toContain('        <node id="inner">\n          <data key="type">group</data>\n          <data key="text">Inner &quot;team&quot;</data>\n          <graph id="inner:" edgedefault="directed">\n            <node id="a">');
+		expect(graphMl).toContain('    <edge id="e2" source="b" target="inner">\n      <data key="bidirectional">true</data>\n    </edge>');
+	});
+});
@@ -0,0 +1,74 @@
+import { CanvasData, CanvasEdgeData } from "canvas";
+import { diffEdgeSnapshots, diffNodeTexts, isBidirectional, snapshotEdges } from "EdgeSnapshots";
+import { edge, fileNode, linkNode, textNode } from "./fixtures";
+
+function canvas(edges: CanvasEdgeData[], cardText = 'In Progress'): CanvasData {
+	return {
+		nodes: [fileNode('a', 'A.md'), fileNode('b', 'B.md', 200), textNode('c', cardText, 400), linkNode('u', 'https://x.org', 600)],
+		edges: edges
+	};
+}
+
+describe("snapshotEdges", () => {
+	test("records the files, text and ends of each edge", () => {
+		const snapshot = snapshotEdges(canvas([
+			edge('e1', 'a', 'b', { label: 'related', toEnd: 'none' }),
+			edge('e2', 'a', 'c'),
+			edge('e3', 'c', 'u')
+		]));
+		expect(snapshot.e1).toMatchObject({ fromNode: 'a', toNode: 'b', fromFile: 'A.md', toFile: 'B.md', toText: undefined, label: 'related', toEnd: 'none' });
+		expect(snapshot.e2).toMatchObject({ fromFile: 'A.md', toFile: undefined, toText: 'In Progress' });
+		expect(snapshot.e3).toMatchObject({ fromFile: undefined, toFile: undefined, toText: 'https://x.org' });
+	});
+});
+
+describe("isBidirectional", () => {
+	test("is true for an arrowhead at the start or none at the end", () => {
+		expect(isBidirectional({ fromNode: 'a', toNode: 'b' })).toBe(false);
+		expect(isBidirectional({ fromNode: 'a', toNode: 'b', fromEnd: 'arrow' })).toBe(true);
+		expect(isBidirectional({ fromNode: 'a', toNode: 'b', toEnd: 'none' })).toBe(true);
+	});
+});
+
+describe("diffEdgeSnapshots", () => {
+	test("finds added, removed and changed edges", () => {
+		const before = snapshotEdges(canvas([
+			edge('kept', 'a', 'b', { label: 'related', color: '1' }),
+			edge('relabeled', 'a', 'c', { label: 'status' }),
+			edge('turned', 'b', 'c'),
+			edge('reconnected', 'a', 'b'),
+			edge('gone', 'a', 'u')
+		]));
+		const after = snapshotEdges(canvas([
+			edge('kept', 'a', 'b', { label: 'related', color: '2', fromSide: 'top' }),
+			edge('relabeled', 'a', 'c', { label: 'state' }),
+			edge('turned', 'b', 'c', { fromEnd: 'arrow' }),
+			edge('reconnected', 'b', 'a'),
+			edge('new', 'b', 'u')
+		]));
+		const diff = diffEdgeSnapshots(before, after);
+		expect(diff.added.map(each => each.fromFile)).toEqual(['B.md']);
+		expect(diff.removed.map(each => each.fromFile)).toEqual(['A.md']);
+		expect(diff.changed.map(change => change.id)).toEqual(['relabeled', 'turned', 'reconnected']);
+		expect(diff.changed[0].before.label).toBe('status');
+	});
+
+	test("treats a missing label like an empty one", () => {
+		const diff = diffEdgeSnapshots({ e: { fromNode: 'a', toNode: 'b' } }, { e: { fromNode: 'a', toNode: 'b', label: '' } });
+		expect(diff.changed).toEqual([]);
+	});
+});
+
+describe("diffNodeTexts", () => {
+	test("finds cards with edges into them whose text changed, once per card", () => {
+		const edges = [edge('e1', 'a', 'c'), edge('e2', 'b', 'c'), edge('e3', 'a', 'u')];
+		const changes = diffNodeTexts(snapshotEdges(canvas(edges)), snapshotEdges(canvas(edges, 'Doing')));
+		expect(changes).toEqual([{ nodeId: 'c', before: 'In Progress', after: 'Doing' }]);
+	});
+
+	test("ignores cards that had no edge into them before", () => {
+		const before = snapshotEdges(canvas([]));
+		const after = snapshotEdges(canvas([edge('e1', 'a', 'c')], 'Doing'));
+		expect(diffNodeTexts(before, after)).toEqual([]);
+	});
+});
@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { HeadlessVault } from "HeadlessVault";
+
+let root: string;
+
+/** A vault folder on disk with the given files, by vault path */
+function makeVault(files: { [vaultPath: string]: string }): HeadlessVault {
+	Object.keys(files).forEach(vaultPath => {
+		const full = path.join(root, ...vaultPath.split('/'));
+		fs.mkdirSync(path.dirname(full), { recursive: true });
+		fs.writeFileSync(full, files[vaultPath]);
+	});
+	return new HeadlessVault(root);
+}
+
+function read(vaultPath: string): string {
+	return fs.readFileSync(path.join(root, ...vaultPath.split('/')), 'utf8');
+}
+
+beforeEach(() => {
+	root = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-canvas-'));
+});
+
+afterEach(() => {
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("HeadlessVault", () => {
+	test("lists files by vault path, leaving out hidden folders", () => {
+		const vault = makeVault({ 'A.md': '', 'Notes/B.md': '', '.obsidian/app.json': '{}' });
+		expect(vault.files.sort()).toEqual(['A.md', 'Notes/B.md']);
+		expect(vault.exists('Notes/B.md')).toBe(true);
+	});
+
+	test("links by name, or by path when another file has the same name", () => {
+		const vault = makeVault({ 'A.md': '', 'One/B.md': '', 'Two/B.md': '' });
+		expect(vault.linkText('A.md')).toBe('A');
+		expect(vault.linkText('One/B.md')).toBe('One/B');
+	});
+
+	test("reads property types from the vault's registry", () => {
+		const vault = makeVault({ '.obsidian/types.json': JSON.stringify({ types: { due: 'date', tags: 'tags' } }) });
+		expect(vault.registeredType('due')).toBe('date');
+		expect(vault.registeredType('tags')).toBeUndefined();
+	});
+
+	test("reads frontmatter with dates left as text", () => {
+		const vault = makeVault({ 'A.md': '---\ndue: 2024-05-01\ntags:\n  - a\n---\nbody\n', 'B.md': 'no frontmatter\n' });
+		expect(vault.readFrontmatter('A.md')).toEqual({ due: '2024-05-01', tags: ['a'] });
+		expect(vault.readFrontmatter('B.md')).toBeUndefined();
+	});
+
+	describe("writeFrontmatter", () => {
+		test("rewrites only the given keys and adds new ones at the end", () => {
+			const vault = makeVault({ 'A.md': '---\ntitle:   "kept as typed"\ntags:\n  - a\nold: x\n---\nbody\n' });
+			vault.writeFrontmatter('A.md', { tags: ['a', 'b'], old: undefined, related: ['[[B]]'] });
+			expect(read('A.md')).toBe('---\ntitle:   "kept as typed"\ntags:\n  - a\n  - b\nrelated:\n  - "[[B]]"\n---\nbody\n');
+		});
+
+		test("adds frontmatter to a note without any", () => {
+			const vault = makeVault({ 'A.md': 'body\n' });
+			vault.writeFrontmatter('A.md', { tags: ['a'] });
+			expect(read('A.md')).toBe('---\ntags:\n  - a\n---\nbody\n');
+		});
+
+		test("keeps a note's CRLF line endings", () => {
+			const vault = makeVault({ 'A.md': '---\r\ntitle: x\r\nkeep: 1\r\n---\r\nbody\r\nmore\r\n' });
+			vault.writeFrontmatter('A.md', { title: ['y'] });
+			expect(read('A.md')).toBe('---\r\ntitle:\r\n  - "y"\r\nkeep: 1\r\n---\r\nbody\r\nmore\r\n');
+		});
+
+		test("keeps comment lines of a rewritten key", () => {
+			const vault = makeVault({ 'A.md': '---\ntitle:\n  - one\n# note\nkeep: 1\n---\n' });
+			vault.writeFrontmatter('A.md', { title: ['one', 'two'] });
+			expect(read('A.md')).toBe('---\ntitle:\n  - one\n  - two\n# note\nkeep: 1\n---\n');
+		});
+
+		test("treats lines starting with # inside a block scalar as text", () => {
+			const vault = makeVault({ 'A.md': '---\nsummary: |\n  # heading\n  text\n---\n' });
+			vault.writeFrontmatter('A.md', { summary: 'short' });
+			expect(read('A.md')).toBe('---\nsummary: short\n---\n');
+		});
+	});
+});
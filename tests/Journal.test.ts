@@ -0,0 +1,27 @@
+import { Journal, JournalTransaction } from "Journal";
+
+function transaction(id: string, path: string): JournalTransaction {
+	return { id: id, label: id, timestamp: 0, changes: [{ kind: 'canvas', path: path, before: '{}' }] };
+}
+
+describe("Journal", () => {
+	test("keeps only the newest transactions once the size is lowered", () => {
+		const journal = new Journal([transaction('a', 'A.canvas'), transaction('b', 'B.canvas'), transaction('c', 'C.canvas')], 5);
+		journal.maxSize = 2;
+		journal.trim();
+		expect(journal.transactions.map(tx => tx.id)).toEqual(['b', 'c']);
+	});
+
+	test("drops the oldest transaction when a commit goes over the size", () => {
+		const journal = new Journal([transaction('a', 'A.canvas')], 1);
+		expect(journal.commit(transaction('b', 'B.canvas'))).toBe(true);
+		expect(journal.commit(journal.begin('nothing recorded'))).toBe(false);
+		expect(journal.transactions.map(tx => tx.id)).toEqual(['b']);
+	});
+
+	test("points changes to a renamed file at its new path", () => {
+		const journal = new Journal([transaction('a', 'Old.canvas'), transaction('b', 'Other.canvas')], 5);
+		journal.renamePath('Old.canvas', 'Folder/New.canvas');
+		expect(journal.transactions.map(tx => tx.changes[0].path)).toEqual(['Folder/New.canvas', 'Other.canvas']);
+	});
+});
@@ -0,0 +1,62 @@
+import { CanvasData, CanvasGroupData } from "canvas";
+import { buildKanbanCanvas, columnMoves, kanbanColumnsOf, moveIntoColumn } from "Kanban";
+import { fileNode, groupNode, nodeById } from "./fixtures";
+
+function column(id: string, label: string, x: number, height = 400): CanvasGroupData {
+	return groupNode(id, label, x, 0, 300, height);
+}
+
+function card(id: string, x: number, y: number) {
+	return fileNode(id, id + '.md', x, y, 260, 60);
+}
+
+describe("kanbanColumnsOf", () => {
+	test("puts each note in the smallest labeled group around it", () => {
+		const data: CanvasData = {
+			nodes: [
+				groupNode('board', 'Board', -100, -100, 2000, 2000),
+				groupNode('unlabeled', undefined, 10, 10, 280, 100),
+				column('todo', 'To do', 0), column('done', 'Done', 340),
+				card('a', 20, 20), card('b', 360, 20), card('c', 1000, 1000), card('d', 3000, 0)
+			],
+			edges: []
+		};
+		expect(kanbanColumnsOf(data)).toEqual({ a: 'To do', b: 'Done', c: 'Board' });
+	});
+});
+
+describe("columnMoves", () => {
+	test("lists notes now in another column, leaving out ones dragged off every column", () => {
+		const moves = columnMoves({ a: 'To do', b: 'To do', c: 'Done' }, { a: 'Done', b: 'To do', d: 'To do' });
+		expect(moves).toEqual([{ nodeId: 'a', column: 'Done' }, { nodeId: 'd', column: 'To do' }]);
+	});
+});
+
+describe("buildKanbanCanvas", () => {
+	test("lays out one column per value with its notes stacked inside", () => {
+		const data = buildKanbanCanvas([{ value: 'To do', notes: ['A.md', 'B.md'] }, { value: 'Done', notes: [] }]);
+		const groups = data.nodes.filter(node => node.type === 'group');
+		const files = data.nodes.filter(node => node.type === 'file');
+		expect(groups.map(node => [node.label, node.x, node.y, node.width, node.height])).toEqual([['To do', 0, 0, 300, 180], ['Done', 340, 0, 300, 100]]);
+		expect(files.map(node => [node.file, node.x, node.y, node.width, node.height])).toEqual([['A.md', 20, 20, 260, 60], ['B.md', 20, 100, 260, 60]]);
+		expect(Object.values(kanbanColumnsOf(data))).toEqual(['To do', 'To do']);
+		expect(data.edges).toEqual([]);
+	});
+});
+
+describe("moveIntoColumn", () => {
+	test("moves a note below the last one in the column, growing the column", () => {
+		const data: CanvasData = { nodes: [column('todo', 'To do', 0), column('done', 'Done', 340, 100), card('a', 20, 20), card('b', 360, 20)], edges: [] };
+		expect(moveIntoColumn(data, ['a'], 'Done')).toBe(true);
+		expect(nodeById(data, 'a')).toMatchObject({ x: 360, y: 100 });
+		expect(nodeById(data, 'done').height).toBe(180);
+		expect(kanbanColumnsOf(data)).toEqual({ a: 'Done', b: 'Done' });
+	});
+
+	test("leaves notes already in the column, and does nothing for an unknown column", () => {
+		const data: CanvasData = { nodes: [column('todo', 'To do', 0), card('a', 20, 20)], edges: [] };
+		expect(moveIntoColumn(data, ['a'], 'To do')).toBe(false);
+		expect(moveIntoColumn(data, ['a'], 'Done')).toBe(false);
+		expect(nodeById(data, 'a')).toMatchObject({ x: 20, y: 20 });
+	});
+});
@@ -0,0 +1,71 @@
+import { CanvasData } from "canvas";
+import { avoidOverlaps, layoutCanvas, LayoutAlgorithm } from "Layout";
+import { edge, groupNode, nodeById, overlap, textNode } from "./fixtures";
+
+/** A chain a → b → c, with every node piled on the same spot and every edge leaving from the top */
+function chain(): CanvasData {
+	return {
+		nodes: [textNode('a', 'a', 500, 500), textNode('b', 'b', 500, 500), textNode('c', 'c', 500, 500)],
+		edges: [edge('ab', 'a', 'b', { fromSide: 'top', toSide: 'top' }), edge('bc', 'b', 'c', { fromSide: 'top', toSide: 'top' })]
+	};
+}
+
+describe("layoutCanvas", () => {
+	const algorithms = [LayoutAlgorithm.Grid, LayoutAlgorithm.Layered, LayoutAlgorithm.Radial, LayoutAlgorithm.ForceDirected];
+
+	test.each(algorithms)("separates nodes and moves them to the origin (algorithm %s)", algorithm => {
+		const data = chain();
+		layoutCanvas(data, algorithm);
+		const [a, b, c] = data.nodes;
+		expect(overlap(a, b) || overlap(b, c) || overlap(a, c)).toBe(false);
+		expect(Math.min(...data.nodes.map(each => each.x))).toBe(0);
+		expect(Math.min(...data.nodes.map(each => each.y))).toBe(0);
+	});
+
+	test("puts each node of a chain in a later column than the one before when layering", () => {
+		const data = chain();
+		layoutCanvas(data, LayoutAlgorithm.Layered);
+		expect(nodeById(data, 'a').x).toBeLessThan(nodeById(data, 'b').x);
+		expect(nodeById(data, 'b').x).toBeLessThan(nodeById(data, 'c').x);
+	});
+
+	test("re-picks edge sides to face the node at the other end", () => {
+		const data = chain();
+		layoutCanvas(data, LayoutAlgorithm.Layered);
+		expect(data.edges.map(each => [each.fromSide, each.toSide])).toEqual([['right', 'left'], ['right', 'left']]);
+	});
+
+	test("moves a group together with its contents and refits it around them", () => {
+		const data: CanvasData = {
+			nodes: [groupNode('g', 'g', 0, 0, 400, 300), textNode('a', 'a', 20, 20), textNode('b', 'b', 200, 150), textNode('c', 'c', 600, 0)],
+			edges: []
+		};
+		layoutCanvas(data, LayoutAlgorithm.Grid);
+		const [g, a, b] = [nodeById(data, 'g'), nodeById(data, 'a'), nodeById(data, 'b')];
+		expect([b.x - a.x, b.y - a.y]).toEqual([180, 130]);
+		expect([g.x, g.y, g.width, g.height]).toEqual([a.x - 40, a.y - 40, 280 + 80, 180 + 80]);
+		expect(overlap(g, nodeById(data, 'c'))).toBe(false);
+	});
+
+	test("leaves an empty canvas alone", () => {
+		const data: CanvasData = { nodes: [], edges: [] };
+		layoutCanvas(data, LayoutAlgorithm.Grid);
+		expect(data).toEqual({ nodes: [], edges: [] });
+	});
+});
+
+describe("avoidOverlaps", () => {
+	test("moves only the new nodes, downwards until they're clear", () => {
+		const data: CanvasData = { nodes: [textNode('old', 'old', 0, 0), textNode('other', 'other', 0, 70), textNode('new', 'new', 10, 10)], edges: [] };
+		avoidOverlaps(data, ['new']);
+		expect(nodeById(data, 'old').y).toBe(0);
+		expect(nodeById(data, 'new')).toMatchObject({ x: 10, y: 150 });
+	});
+
+	test("keeps new nodes off each other and ignores groups", () => {
+		const data: CanvasData = { nodes: [groupNode('g', 'g', 0, 0, 500, 500), textNode('one', 'one', 10, 10), textNode('two', 'two', 10, 10)], edges: [] };
+		avoidOverlaps(data, ['one', 'two']);
+		expect(nodeById(data, 'one').y).toBe(10);
+		expect(nodeById(data, 'two').y).toBe(80);
+	});
+});
@@ -0,0 +1,44 @@
+import { diffNoteSnapshots, snapshotFrontmatter } from "NoteSnapshots";
+
+const notExcluded = () => false;
+const noRelations = () => false;
+
+describe("snapshotFrontmatter", () => {
+	test("keeps lists as text, leaving out empty items & excluded keys", () => {
+		const snapshot = snapshotFrontmatter({ related: ['[[A]]', null, 2], tags: ['x'], cssclasses: ['wide'] }, key => key === 'cssclasses', noRelations);
+		expect(snapshot).toEqual({ related: ['[[A]]', '2'], tags: ['x'] });
+	});
+
+	test("keeps single values only for keys that are relations", () => {
+		const frontmatter = { status: 'draft', due: '2026-10-19', owner: '[[Ann]]', blank: '' };
+		expect(snapshotFrontmatter(frontmatter, notExcluded, noRelations)).toEqual({});
+		expect(snapshotFrontmatter(frontmatter, notExcluded, key => key !== 'status')).toEqual({ due: ['2026-10-19'], owner: ['[[Ann]]'] });
+	});
+
+	test("gives an empty snapshot for a note without properties", () => {
+		expect(snapshotFrontmatter(undefined, notExcluded, noRelations)).toEqual({});
+	});
+});
+
+describe("diffNoteSnapshots", () => {
+	test("lists the values each key gained & lost", () => {
+		const diff = diffNoteSnapshots({ related: ['[[A]]', '[[B]]'], gone: ['x'] }, { related: ['[[B]]', '[[C]]'], fresh: ['y'] });
+		expect(diff).toEqual({
+			added: { related: ['[[C]]'], fresh: ['y'] },
+			removed: { related: ['[[A]]'], gone: ['x'] }
+		});
+	});
+
+	test("editing a single value that isn't a relation changes nothing on the canvas", () => {
+		const before = snapshotFrontmatter({ related: ['[[A]]'], status: 'draft', updated: '2026-10-18' }, notExcluded, noRelations);
+		const after = snapshotFrontmatter({ related: ['[[A]]'], status: 'done', updated: '2026-10-19' }, notExcluded, noRelations);
+		expect(diffNoteSnapshots(before, after)).toEqual({ added: {}, removed: {} });
+	});
+
+	test("editing a single value of a relation key swaps its value", () => {
+		const isRelation = (key: string) => key === 'due';
+		const before = snapshotFrontmatter({ due: '2026-10-18' }, notExcluded, isRelation);
+		const after = snapshotFrontmatter({ due: '2026-10-19' }, notExcluded, isRelation);
+		expect(diffNoteSnapshots(before, after)).toEqual({ added: { due: ['2026-10-19'] }, removed: { due: ['2026-10-18'] } });
+	});
+});
@@ -0,0 +1,264 @@
+import { App, TFile } from "obsidian";
+import { applyFileChanges, hasEffect, planFileChanges, planNoteChanges, proposeValue, PushMode, recordWrittenProps, valuesWrittenElsewhere, writeKeyChange, writtenForMirror, writtenPaths, WrittenProps } from "PushPlan";
+
+/** Just enough of the app to read and write the frontmatter of notes, by path */
+function appWith(frontmatters: { [path: string]: { [key: string]: unknown } }): App {
+	return {
+		metadataCache: { getFileCache: (file: TFile) => ({ frontmatter: frontmatters[file.path] }) },
+		fileManager: { processFrontMatter: async (file: TFile, write: (frontmatter: unknown) => void) => write(frontmatters[file.path]) }
+	} as unknown as App;
+}
+
+function note(path: string): TFile {
+	return { path: path } as TFile;
+}
+
+describe("proposeValue", () => {
+	test("appends canvas values after existing ones, without duplicates", () => {
+		expect(proposeValue({ tags: ['a', 'b'] }, 'tags', ['b', 'c'], PushMode.Append)).toEqual(['a', 'b', 'c']);
+		expect(proposeValue({ tags: 'a' }, 'tags', ['c'], PushMode.Append)).toEqual(['a', 'c']);
+	});
+
+	test("creates a missing key with the canvas values", () => {
+		expect(proposeValue({}, 'tags', ['a'], PushMode.Overwrite)).toEqual(['a']);
+		expect(proposeValue(undefined, 'tags', ['a'], PushMode.Append)).toEqual(['a']);
+	});
+
+	test("overwrites a key, keeping values other canvases wrote", () => {
+		expect(proposeValue({ tags: ['a', 'b'] }, 'tags', ['c'], PushMode.Overwrite)).toEqual(['c']);
+		expect(proposeValue({ tags: ['a', 'b'] }, 'tags', ['c'], PushMode.Overwrite, [], ['b'])).toEqual(['b', 'c']);
+	});
+
+	describe("mirroring", () => {
+		test("replaces the key with the canvas values", () => {
+			expect(proposeValue({ tags: ['a', 'b'] }, 'tags', ['c'], PushMode.Mirror, ['a'])).toEqual(['c']);
+		});
+
+		test("removes only what this canvas wrote once it has no edges left for the key", () => {
+			expect(proposeValue({ tags: ['mine', 'typed'] }, 'tags', [], PushMode.Mirror, ['mine'])).toEqual(['typed']);
+		});
+
+		test("removes the key when nothing else is left in it", () => {
+			expect(proposeValue({ tags: ['mine'] }, 'tags', [], PushMode.Mirror, ['mine'])).toBeUndefined();
+			expect(proposeValue({}, 'tags', [], PushMode.Mirror, ['mine'])).toBeUndefined();
+		});
+
+		test("keeps values another canvas wrote too", () => {
+			expect(proposeValue({ tags: ['shared'] }, 'tags', [], PushMode.Mirror, ['shared'], ['shared'])).toEqual(['shared']);
+		});
+	});
+
+	describe("single-valued keys", () => {
+		test("take the first canvas value that parses as the type", () => {
+			expect(proposeValue({}, 'priority', ['high', '3', '4'], PushMode.Overwrite, [], [], 'number')).toBe(3);
+		});
+
+		test("are only filled in, never replaced, when appending", () => {
+			expect(proposeValue({ priority: 1 }, 'priority', ['3'], PushMode.Append, [], [], 'number')).toBe(1);
+			expect(proposeValue({ priority: '' }, 'priority', ['3'], PushMode.Append, [], [], 'number')).toBe(3);
+		});
+
+		test("keep a value another canvas owns", () => {
+			expect(proposeValue({ priority: 1 }, 'priority', ['3'], PushMode.Overwrite, [], ['1'], 'number')).toBe(1);
+		});
+
+		test("are removed by mirroring only when this canvas wrote the value", () => {
+			expect(proposeValue({ due: '2024-05-01' }, 'due', [], PushMode.Mirror, ['2024-05-01'], [], 'date')).toBeUndefined();
+			expect(proposeValue({ due: '2024-06-01' }, 'due', [], PushMode.Mirror, ['2024-05-01'], [], 'date')).toBe('2024-06-01');
+		});
+	});
+});
+
+describe("planFileChanges", () => {
+	test("describes what happens to each key and value without writing anything", () => {
+		const frontmatters = { 'A.md': { tags: ['a', 'old'] } };
+		const [change] = planFileChanges(appWith(frontmatters), [{ file: note('A.md'), props: { tags: ['a', 'b'], related: ['[[B]]'] } }], PushMode.Append);
+		expect(change.keys.map(keyChange => [keyChange.key, keyChange.action])).toEqual([['tags', 'appended'], ['related', 'created']]);
+		expect(change.keys[0].values).toEqual([{ value: 'a', status: 'kept' }, { value: 'old', status: 'kept' }, { value: 'b', status: 'added' }]);
+		expect(frontmatters).toEqual({ 'A.md': { tags: ['a', 'old'] } });
+	});
+
+	test("marks values an overwrite drops", () => {
+		const [change] = planFileChanges(appWith({ 'A.md': { tags: ['a', 'old'] } }), [{ file: note('A.md'), props: { tags: ['a'] } }], PushMode.Overwrite);
+		expect(change.keys[0].action).toBe('replaced');
+		expect(change.keys[0].values).toEqual([{ value: 'a', status: 'kept' }, { value: 'old', status: 'dropped' }]);
+	});
+
+	test("cleans up keys this canvas wrote before when mirroring, even ones no longer on the canvas", () => {
+		const app = appWith({ 'A.md': { old: ['gone', 'typed by hand'], gone: ['x'] } });
+		const previouslyWritten: WrittenProps = { 'A.md': { old: { gone: ['e1'] }, gone: { x: ['e2'] } } };
+		const [change] = planFileChanges(app, [{ file: note('A.md'), props: {} }], PushMode.Mirror, previouslyWritten);
+		expect(change.keys.map(keyChange => [keyChange.key, keyChange.action, keyChange.proposed])).toEqual([['old', 'replaced', ['typed by hand']], ['gone', 'removed', undefined]]);
+	});
+
+	test("protects values other canvases wrote", () => {
+		const app = appWith({ 'A.md': { tags: ['theirs', 'stale'] } });
+		const [change] = planFileChanges(app, [{ file: note('A.md'), props: { tags: ['mine'] } }], PushMode.Overwrite, {},
+			(notePath, key) => notePath === 'A.md' && key === 'tags' ? ['theirs'] : []);
+		expect(change.keys[0].proposed).toEqual(['theirs', 'mine']);
+		expect(change.keys[0].protectedValues).toEqual(['theirs']);
+	});
+
+	test("reports canvas values that don't parse as the key's type", () => {
+		const app = appWith({ 'A.md': {} });
+		const [change] = planFileChanges(app, [{ file: note('A.md'), props: { due: ['soon', '2024-05-01'] }, types: { due: 'date' } }], PushMode.Overwrite);
+		expect(change.keys[0].proposed).toBe('2024-05-01');
+		expect(change.keys[0].unparsable).toEqual(['soon']);
+	});
+
+	test("leaves keys from earlier pushes alone unless mirroring", () => {
+		const app = appWith({ 'A.md': { old: ['gone'] } });
+		expect(planFileChanges(app, [{ file: note('A.md'), props: {} }], PushMode.Overwrite, { 'A.md': { old: { gone: ['e1'] } } })).toEqual([]);
+	});
+});
+
+describe("planNoteChanges", () => {
+	test("plans one note from its frontmatter, the same way a push through the app does", () => {
+		const changes = planNoteChanges('A.md', { tags: ['a'] }, { props: { tags: ['a', 'b'], related: ['[[B]]'] } }, PushMode.Append);
+		expect(changes.map(change => [change.key, change.action])).toEqual([['tags', 'appended'], ['related', 'created']]);
+		expect(changes[0].values).toEqual([{ value: 'a', status: 'kept' }, { value: 'b', status: 'added' }]);
+	});
+
+	test("cleans up keys this canvas wrote before when mirroring", () => {
+		const previouslyWritten: WrittenProps = { 'A.md': { old: { gone: ['e1'] } } };
+		const changes = planNoteChanges('A.md', { old: ['gone', 'typed by hand'] }, { props: {} }, PushMode.Mirror, previouslyWritten);
+		expect(changes.map(change => [change.key, change.proposed])).toEqual([['old', ['typed by hand']]]);
+	});
+});
+
+describe("writeKeyChange", () => {
+	test("re-derives the value from the frontmatter as it is when written", () => {
+		const [change] = planNoteChanges('A.md', { tags: ['a'] }, { props: { tags: ['b'] } }, PushMode.Append);
+		const frontmatter = { tags: ['a', 'added meanwhile'] };
+		writeKeyChange(frontmatter, change, PushMode.Append);
+		expect(frontmatter.tags).toEqual(['a', 'added meanwhile', 'b']);
+	});
+
+	test("removes keys mirroring left empty", () => {
+		const [change] = planNoteChanges('A.md', { old: ['gone'] }, { props: {} }, PushMode.Mirror, { 'A.md': { old: { gone: ['e1'] } } });
+		const frontmatter = { old: ['gone'], other: 1 };
+		writeKeyChange(frontmatter, change, PushMode.Mirror);
+		expect(frontmatter).toEqual({ other: 1 });
+	});
+});
+
+describe("hasEffect", () => {
+	test("is false when the note already holds the canvas values", () => {
+		const app = appWith({ 'A.md': { tags: ['a', 'b'], priority: 3 } });
+		const [change] = planFileChanges(app, [{ file: note('A.md'), props: { tags: ['b', 'c'], priority: ['3'] }, types: { priority: 'number' } }], PushMode.Append);
+		expect(change.keys.map(hasEffect)).toEqual([true, false]);
+	});
+
+	test("is true when a value becomes a list", () => {
+		const [change] = planFileChanges(appWith({ 'A.md': { tags: 'a' } }), [{ file: note('A.md'), props: { tags: ['a'] } }], PushMode.Overwrite);
+		expect(hasEffect(change.keys[0])).toBe(true);
+	});
+});
+
+describe("applyFileChanges", () => {
+	test("writes only the keys and notes left included", async () => {
+		const frontmatters = { 'A.md': { tags: ['a'] }, 'B.md': {} };
+		const app = appWith(frontmatters);
+		const changes = planFileChanges(app, [
+			{ file: note('A.md'), props: { tags: ['b'], related: ['[[B]]'] } },
+			{ file: note('B.md'), props: { tags: ['c'] } }
+		], PushMode.Append);
+		changes[0].keys[1].include = false;
+		changes[1].include = false;
+		expect(await applyFileChanges(app, changes, PushMode.Append)).toEqual({ props: 1, files: 1 });
+		expect(frontmatters).toEqual({ 'A.md': { tags: ['a', 'b'] }, 'B.md': {} });
+	});
+
+	test("re-derives values from the frontmatter as it is when written", async () => {
+		const frontmatters = { 'A.md': { tags: ['a'] } };
+		const app = appWith(frontmatters);
+		const changes = planFileChanges(app, [{ file: note('A.md'), props: { tags: ['b'] } }], PushMode.Append);
+		frontmatters['A.md'].tags.push('added meanwhile');
+		await applyFileChanges(app, changes, PushMode.Append);
+		expect(frontmatters['A.md'].tags).toEqual(['a', 'added meanwhile', 'b']);
+	});
+
+	test("removes keys mirroring left empty", async () => {
+		const frontmatters: { [path: string]: { [key: string]: unknown } } = { 'A.md': { old: ['gone'], other: 1 } };
+		const app = appWith(frontmatters);
+		const changes = planFileChanges(app, [{ file: note('A.md'), props: {} }], PushMode.Mirror, { 'A.md': { old: { gone: ['e1'] } } });
+		await applyFileChanges(app, changes, PushMode.Mirror);
+		expect(frontmatters).toEqual({ 'A.md': { other: 1 } });
+	});
+});
+
+describe("writtenPaths", () => {
+	test("leaves out notes that are unticked or have every key unticked", () => {
+		const app = appWith({ 'A.md': {}, 'B.md': {}, 'C.md': {} });
+		const changes = planFileChanges(app, [
+			{ file: note('A.md'), props: { tags: ['a'], related: ['[[B]]'] } },
+			{ file: note('B.md'), props: { tags: ['b'] } },
+			{ file: note('C.md'), props: { tags: ['c'] } }
+		], PushMode.Append);
+		changes[0].keys[0].include = false;
+		changes[1].keys[0].include = false;
+		changes[2].include = false;
+		expect(writtenPaths(changes)).toEqual(['A.md']);
+	});
+});
+
+describe("recordWrittenProps", () => {
+	const plan = (mode: PushMode, props: { [key: string]: string[] }, written: WrittenProps = {}) =>
+		planFileChanges(appWith({ 'A.md': { tags: ['a'] } }), [{ file: note('A.md'), props: props, sources: { tags: { b: ['e2'] } } }], mode, written);
+
+	test("remembers the values written and the edges they came from", () => {
+		const written: WrittenProps = {};
+		recordWrittenProps(written, plan(PushMode.Overwrite, { tags: ['b'] }), PushMode.Overwrite);
+		expect(written).toEqual({ 'A.md': { tags: { b: ['e2'] } } });
+	});
+
+	test("keeps earlier values when appending and forgets them otherwise", () => {
+		const before = (): WrittenProps => ({ 'A.md': { tags: { a: ['e1'] } } });
+
+		const appended = before();
+		recordWrittenProps(appended, plan(PushMode.Append, { tags: ['b'] }), PushMode.Append);
+		expect(appended).toEqual({ 'A.md': { tags: { a: ['e1'], b: ['e2'] } } });
+
+		const overwritten = before();
+		recordWrittenProps(overwritten, plan(PushMode.Overwrite, { tags: ['b'] }), PushMode.Overwrite);
+		expect(overwritten).toEqual({ 'A.md': { tags: { b: ['e2'] } } });
+	});
+
+	test("remembers only the value written into a single-valued key", () => {
+		const written: WrittenProps = {};
+		const changes = planFileChanges(appWith({ 'A.md': {} }), [{ file: note('A.md'), props: { priority: ['2', '5'] }, types: { priority: 'number' } }], PushMode.Overwrite);
+		recordWrittenProps(written, changes, PushMode.Overwrite);
+		expect(written).toEqual({ 'A.md': { priority: { '2': [] } } });
+	});
+
+	test("forgets a note once the canvas writes nothing into it", () => {
+		const written: WrittenProps = { 'A.md': { tags: { a: ['e1'] } } };
+		recordWrittenProps(written, plan(PushMode.Mirror, {}, written), PushMode.Mirror);
+		expect(written).toEqual({});
+	});
+
+	test("skips changes left out of the push", () => {
+		const written: WrittenProps = {};
+		const changes = plan(PushMode.Overwrite, { tags: ['b'] });
+		changes[0].include = false;
+		recordWrittenProps(written, changes, PushMode.Overwrite);
+		expect(written).toEqual({});
+	});
+});
+
+describe("writtenForMirror and valuesWrittenElsewhere", () => {
+	test("leave out ignored keys", () => {
+		const written: WrittenProps = { 'A.md': { tags: { a: ['e1'] }, aliases: { x: ['e2'] } }, 'B.md': { aliases: { y: ['e3'] } } };
+		expect(writtenForMirror(written, key => key === 'aliases')).toEqual({ 'A.md': { tags: { a: ['e1'] } } });
+	});
+
+	test("collect what every other canvas wrote into a note's key", () => {
+		const byCanvas = {
+			'One.canvas': { 'A.md': { tags: { a: ['e1'] } } },
+			'Two.canvas': { 'A.md': { tags: { b: ['e2'], c: ['e3'] } } },
+			'Three.canvas': { 'A.md': { tags: { b: ['e4'] } } }
+		};
+		expect(valuesWrittenElsewhere(byCanvas, 'One.canvas', 'A.md', 'tags')).toEqual(['b', 'c']);
+		expect(valuesWrittenElsewhere(byCanvas, 'One.canvas', 'B.md', 'tags')).toEqual([]);
+	});
+});
@@ -0,0 +1,118 @@
+import { noteIri, parseRdfMappings, predicateFor, PropertyStatement, toJsonLd, toTriples, toTurtle } from "RdfExport";
+
+const BASE = 'https://vault.example/';
+const mappings = parseRdfMappings('schema: https://schema.org/\nex: <http://example.org/ns#>\nrelated = schema:isRelatedTo\nauthor = <http://purl.org/dc/terms/creator>\nnot a mapping');
+const resolveLink = (linkpath: string) => linkpath === 'B' ? 'Notes/B.md' : undefined;
+
+describe("parseRdfMappings", () => {
+	test("reads prefixes and predicates", () => {
+		expect(Array.from(mappings.prefixes.entries())).toEqual([['schema', 'https://schema.org/'], ['ex', 'http://example.org/ns#']]);
+		expect(Array.from(mappings.predicates.entries())).toEqual([['related', 'schema:isRelatedTo'], ['author', '<http://purl.org/dc/terms/creator>']]);
+	});
+});
+
+describe("noteIri and predicateFor", () => {
+	test("put notes under the base IRI by path, encoding each segment", () => {
+		expect(noteIri(BASE, 'Notes/My note.md')).toBe('https://vault.example/Notes/My%20note');
+	});
+
+	test("use the mapping, a prefixed name or an IRI, falling back to the base IRI", () => {
+		expect(predicateFor(BASE, mappings, 'related')).toBe('https://schema.org/isRelatedTo');
+		expect(predicateFor(BASE, mappings, 'author')).toBe('http://purl.org/dc/terms/creator');
+		expect(predicateFor(BASE, mappings, 'ex:part')).toBe('http://example.org/ns#part');
+		expect(predicateFor(BASE, mappings, 'https://schema.org/about')).toBe('https://schema.org/about');
+		expect(predicateFor(BASE, mappings, 'due date')).toBe('https://vault.example/property/due%20date');
+	});
+});
+
+describe("toTriples", () => {
+	const statements: PropertyStatement[] = [
+		{ notePath: 'A.md', key: 'related', value: '[[B|the B note]]' },
+		{ notePath: 'A.md', key: 'related', value: '[[B]]' },
+		{ notePath: 'A.md', key: 'see', value: '[[Missing#Part One]]' },
+		{ notePath: 'A.md', key: 'site', value: 'https://x.org/a b' },
+		{ notePath: 'A.md', key: 'priority', value: 3 },
+		{ notePath: 'A.md', key: 'weight', value: 2.5 },
+		{ notePath: 'A.md', key: 'done', value: false },
+		{ notePath: 'A.md', key: 'due', value: '2024-05-01', type: 'date' },
+		{ notePath: 'A.md', key: 'at', value: '2024-05-01T10:30', type: 'datetime' },
+		{ notePath: 'A.md', key: 'tags', value: 'idea' }
+	];
+	const triples = toTriples(statements, BASE, mappings, resolveLink);
+	const objectOf = (key: string) => triples.filter(triple => triple.predicate.endsWith(key)).map(triple => triple.object);
+
+	test("link to the notes links resolve to, once per target", () => {
+		expect(objectOf('isRelatedTo')).toEqual([{ iri: 'https://vault.example/Notes/B' }]);
+		expect(objectOf('see')).toEqual([{ iri: 'https://vault.example/Missing#Part%20One' }]);
+	});
+
+	test("make urls resources and everything else typed or plain literals", () => {
+		expect(objectOf('site')).toEqual([{ iri: 'https://x.org/a%20b' }]);
+		expect(objectOf('priority')).toEqual([{ literal: '3', datatype: 'http://www.w3.org/2001/XMLSchema#integer' }]);
+		expect(objectOf('weight')).toEqual([{ literal: '2.5', datatype: 'http://www.w3.org/2001/XMLSchema#decimal' }]);
+		expect(objectOf('done')).toEqual([{ literal: 'false', datatype: 'http://www.w3.org/2001/XMLSchema#boolean' }]);
+		expect(objectOf('due')).toEqual([{ literal: '2024-05-01', datatype: 'http://www.w3.org/2001/XMLSchema#date' }]);
+		expect(objectOf('at')).toEqual([{ literal: '2024-05-01T10:30:00', datatype: 'http://www.w3.org/2001/XMLSchema#dateTime' }]);
+		expect(objectOf('tags')).toEqual([{ literal: 'idea' }]);
+	});
+
+	test("label every note, including the ones linked to", () => {
+		const labels = triples.filter(triple => triple.predicate === 'http://www.w3.org/2000/01/rdf-schema#label');
+		expect(labels.map(triple => [triple.subject, triple.object])).toEqual([
+			['https://vault.example/A', { literal: 'A' }],
+			['https://vault.example/Notes/B', { literal: 'B' }],
+			['https://vault.example/Missing', { literal: 'Missing' }]
+		]);
+	});
+});
+
+describe("escaping IRIs", () => {
+	test("percent-encodes control characters and the characters Turtle doesn't allow between angle brackets", () => {
+		const triples = toTriples([{ notePath: 'A.md', key: 'site', value: 'https://x.org/{a}|b\u0007c' }], BASE, mappings, resolveLink);
+		expect(triples[0].object).toEqual({ iri: 'https://x.org/%7Ba%7D%7Cb%07c' });
+	});
+});
+
+describe("toTurtle and toJsonLd", () => {
+	const triples = toTriples([
+		{ notePath: 'A.md', key: 'related', value: '[[B]]' },
+		{ notePath: 'A.md', key: 'tags', value: 'say "hi"\n' },
+		{ notePath: 'A.md', key: 'tags', value: 'idea' },
+		{ notePath: 'A.md', key: 'priority', value: 3 }
+	], BASE, mappings, resolveLink);
+
+	test("write Turtle with prefixed names, one block per subject", () => {
+		expect(toTurtle(triples, BASE, mappings)).toBe([
+			'@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .',
+			'@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .',
+			'@prefix prop: <https://vault.example/property/> .',
+			'@prefix schema: <https://schema.org/> .',
+			'@prefix ex: <http://example.org/ns#> .',
+			'',
+			'<https://vault.example/A>',
+			'\tschema:isRelatedTo <https://vault.example/Notes/B> ;',
+			'\tprop:tags "say \\"hi\\"\\n", "idea" ;',
+			'\tprop:priority "3"^^xsd:integer ;',
+			'\trdfs:label "A" .',
+			'',
+			'<https://vault.example/Notes/B>',
+			'\trdfs:label "B" .',
+			''
+		].join('\n'));
+	});
+
+	test("write JSON-LD with a context of the prefixes", () => {
+		const document = JSON.parse(toJsonLd(triples, BASE, mappings));
+		expect(document['@context'].schema).toBe('https://schema.org/');
+		expect(document['@graph']).toEqual([
+			{
+				'@id': 'https://vault.example/A',
+				'schema:isRelatedTo': { '@id': 'https://vault.example/Notes/B' },
+				'prop:tags': ['say "hi"\n', 'idea'],
+				'prop:priority': { '@value': '3', '@type': 'xsd:integer' },
+				'rdfs:label': 'A'
+			},
+			{ '@id': 'https://vault.example/Notes/B', 'rdfs:label': 'B' }
+		]);
+	});
+});
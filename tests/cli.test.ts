@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { run } from "cli";
+
+let root: string;
+let output: string[];
+
+function write(vaultPath: string, content: string) {
+	const full = path.join(root, ...vaultPath.split('/'));
+	fs.mkdirSync(path.dirname(full), { recursive: true });
+	fs.writeFileSync(full, content);
+}
+
+function read(vaultPath: string): string {
+	return fs.readFileSync(path.join(root, ...vaultPath.split('/')), 'utf8');
+}
+
+/** A canvas with an edge from A to B labeled `related` */
+function writeCanvas() {
+	write('Map.canvas', JSON.stringify({
+		nodes: [
+			{ id: 'a', type: 'file', file: 'A.md', x: 0, y: 0, width: 100, height: 50 },
+			{ id: 'b', type: 'file', file: 'B.md', x: 200, y: 0, width: 100, height: 50 }
+		],
+		edges: [{ id: 'e', fromNode: 'a', toNode: 'b', label: 'related' }]
+	}));
+}
+
+beforeEach(() => {
+	root = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-canvas-'));
+	output = [];
+	jest.spyOn(console, 'log').mockImplementation(text => output.push(String(text)));
+	jest.spyOn(console, 'error').mockImplementation(text => output.push(String(text)));
+	write('A.md', '---\ntitle: A\n---\nbody\n');
+	write('B.md', 'body\n');
+	writeCanvas();
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("the command line runner", () => {
+	test("pushes the canvas into its notes and exits with 0", () => {
+		expect(run([root, 'Map.canvas'])).toBe(0);
+		expect(read('A.md')).toBe('---\ntitle: A\nrelated:\n  - "[[B]]"\n---\nbody\n');
+		expect(output).toContain('    + related: [[B]]');
+	});
+
+	test("exits with 1 when checking finds notes to update, without writing them", () => {
+		expect(run([root, 'Map.canvas', '--check'])).toBe(1);
+		expect(read('A.md')).toBe('---\ntitle: A\n---\nbody\n');
+		expect(output[0]).toBe('Map.canvas: 1 note(s) to update');
+	});
+
+	test("exits with 0 when checking finds the notes in sync", () => {
+		expect(run([root, 'Map.canvas'])).toBe(0);
+		expect(run([root, 'Map.canvas', '--check'])).toBe(0);
+		expect(output).toContain('Map.canvas: notes are in sync');
+	});
+
+	test("mirrors away values whose edges are gone, using the record the plugin keeps", () => {
+		write('.obsidian/plugins/semantic-canvas/data.json', JSON.stringify({}));
+		expect(run([root, 'Map.canvas', '--mode', 'mirror'])).toBe(0);
+		write('Map.canvas', JSON.stringify({ nodes: [{ id: 'a', type: 'file', file: 'A.md', x: 0, y: 0, width: 100, height: 50 }], edges: [] }));
+		expect(run([root, 'Map.canvas', '--mode', 'mirror', '--check'])).toBe(1);
+		expect(run([root, 'Map.canvas', '--mode', 'mirror'])).toBe(0);
+		expect(read('A.md')).toBe('---\ntitle: A\n---\nbody\n');
+	});
+
+	test("exits with 2 on errors", () => {
+		expect(run([])).toBe(2);
+		expect(run([root])).toBe(2);
+		expect(run([root, 'Missing.canvas'])).toBe(2);
+		expect(run([root, 'Map.canvas', '--mode', 'sideways'])).toBe(2);
+		expect(run([path.join(root, 'nowhere'), 'Map.canvas'])).toBe(2);
+	});
+
+	test("exits with 2 when a note on the canvas doesn't exist", () => {
+		fs.unlinkSync(path.join(root, 'B.md'));
+		write('Map.canvas', JSON.stringify({
+			nodes: [{ id: 'b', type: 'file', file: 'B.md', x: 0, y: 0, width: 100, height: 50 }, { id: 'c', type: 'text', text: 'x', x: 200, y: 0, width: 100, height: 50 }],
+			edges: [{ id: 'e', fromNode: 'b', toNode: 'c' }]
+		}));
+		expect(run([root, 'Map.canvas'])).toBe(2);
+		expect(output).toContain('No file found at path B.md');
+	});
+
+	test("exits with 0 for --help", () => {
+		expect(run(['--help'])).toBe(0);
+	});
+});
@@ -0,0 +1,41 @@
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData, CanvasFileData, CanvasGroupData, CanvasLinkData, CanvasTextData } from "canvas";
+
+/*
+ * Canvas nodes and edges for tests. Nodes are 100 by 50 unless sized otherwise.
+ */
+
+export function fileNode(id: string, file: string, x = 0, y = 0, width = 100, height = 50): CanvasFileData {
+	return { id: id, type: 'file', file: file, x: x, y: y, width: width, height: height };
+}
+
+export function textNode(id: string, text: string, x = 0, y = 0, width = 100, height = 50): CanvasTextData {
+	return { id: id, type: 'text', text: text, x: x, y: y, width: width, height: height };
+}
+
+export function linkNode(id: string, url: string, x = 0, y = 0): CanvasLinkData {
+	return { id: id, type: 'link', url: url, x: x, y: y, width: 100, height: 50 };
+}
+
+export function groupNode(id: string, label: string | undefined, x: number, y: number, width: number, height: number): CanvasGroupData {
+	return { id: id, type: 'group', label: label, x: x, y: y, width: width, height: height };
+}
+
+export function edge(id: string, fromNode: string, toNode: string, extra: Partial<CanvasEdgeData> = {}): CanvasEdgeData {
+	return { id: id, fromNode: fromNode, fromSide: 'right', toNode: toNode, toSide: 'left', ...extra };
+}
+
+/**
+ * The node with the given id, failing the test when there's none
+ */
+export function nodeById(data: CanvasData, id: string): AllCanvasNodeData {
+	const node = data.nodes.find(each => each.id === id);
+	if (node === undefined) throw new Error(`No node with id ${id}`);
+	return node;
+}
+
+/**
+ * Whether two nodes cover some of the same area
+ */
+export function overlap(a: AllCanvasNodeData, b: AllCanvasNodeData): boolean {
+	return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}